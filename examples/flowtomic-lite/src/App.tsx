@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ChangeEvent, PointerEvent as ReactPointerEvent } from 'react';
 import type {
+  FlowGraphLayoutOptions,
+  FlowGraphLayoutStrategyName,
   FlowGraphState,
   FlowGraphNavigatorItem,
   FlowGraphNavigatorSection,
@@ -11,13 +13,23 @@ import type {
   NodeFormSchema,
   PortAddress,
 } from '@flowtomic/flowgraph';
-import { FlowGraph, buildNavigatorSummary } from '@flowtomic/flowgraph';
+import { FlowGraph, buildNavigatorSummary, createFragment, layout, pasteFragment } from '@flowtomic/flowgraph';
 
 type GraphSnapshot = FlowGraphState;
 
 const NODE_WIDTH = 220;
 const NODE_HEIGHT = 150;
 
+// Cards grow past their minimum height with ports, so leave generous gaps between them.
+const CARD_LAYOUT: FlowGraphLayoutOptions = {
+  nodeSize: { width: NODE_WIDTH, height: NODE_HEIGHT },
+  nodeSpacing: 80,
+  layerSpacing: 120,
+  origin: { x: 80, y: 80 },
+};
+
+const LAYOUT_STRATEGIES: FlowGraphLayoutStrategyName[] = ['layered', 'force', 'grid', 'radial'];
+
 interface DragState {
   id: string;
   pointerId: number;
@@ -152,6 +164,7 @@ const App = (): JSX.Element => {
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
   const [showNavigator, setShowNavigator] = useState(true);
+  const [layoutStrategy, setLayoutStrategy] = useState<FlowGraphLayoutStrategyName>('layered');
   const [viewport, setViewport] = useState<ViewportState>({ offsetX: 0, offsetY: 0, scale: 1 });
 
   const canvasRef = useRef<HTMLDivElement | null>(null);
@@ -161,6 +174,7 @@ const App = (): JSX.Element => {
   useEffect(() => {
     if (graph.getState().nodes.length === 0) {
       nodeTemplates.forEach(template => graph.addNode(createNodeFromTemplate(template)));
+      layout(graph, { ...CARD_LAYOUT, strategy: 'grid' });
     }
     setSnapshot(graph.getState());
     return graph.subscribe(event => setSnapshot(event.state));
@@ -253,14 +267,15 @@ const App = (): JSX.Element => {
     [graph],
   );
 
+  const arrangeNodes = useCallback(() => {
+    layout(graph, { ...CARD_LAYOUT, strategy: layoutStrategy });
+  }, [graph, layoutStrategy]);
+
   const duplicateNode = useCallback(
     (node: GraphNode) => {
-      const clone = {
-        ...node,
-        id: `${node.id}-copy-${crypto.randomUUID().slice(0, 4)}`,
-        position: { x: node.position.x + 32, y: node.position.y + 32 },
-      };
-      const created = graph.addNode(clone);
+      const {
+        nodes: [created],
+      } = pasteFragment(graph, createFragment(graph, { nodeIds: [node.id] }));
       setSelectedNodeId(created.id);
       setFocusedNodeId(created.id);
     },
@@ -605,6 +620,25 @@ const App = (): JSX.Element => {
           </ul>
         </section>
 
+        <section className="layout-controls">
+          <h2>Layout</h2>
+          <div className="palette-actions">
+            <select
+              value={layoutStrategy}
+              onChange={event => setLayoutStrategy(event.target.value as FlowGraphLayoutStrategyName)}
+            >
+              {LAYOUT_STRATEGIES.map(strategy => (
+                <option key={strategy} value={strategy}>
+                  {strategy}
+                </option>
+              ))}
+            </select>
+            <button type="button" onClick={arrangeNodes}>
+              Arrange
+            </button>
+          </div>
+        </section>
+
         <section className="navigator-summary">
           <header>
             <span>Navigator</span>
@@ -205,8 +205,8 @@ const App = (): JSX.Element => {
           <p className="selection">{selectionLabel}</p>
           {error ? <p className="error">{error}</p> : null}
           <p className="tip">
-            Tip: Drag the canvas from empty space to pan, drag nodes to reposition, double-click a connection to
-            delete it, and press <kbd>Delete</kbd> to remove the current selection.
+            Tip: Drag the canvas from empty space to pan, drag nodes to reposition, <kbd>Alt</kbd>+double-click a
+            connection to delete it, and press <kbd>Delete</kbd> to remove the current selection.
           </p>
         </section>
 
@@ -0,0 +1,183 @@
+import type { Point } from '@flowtomic/flowgraph';
+
+export interface GuideRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A line at `position` on `axis` (`x` draws a vertical line) running from `start` to `end` on the other axis. */
+export interface AlignmentGuide {
+  axis: 'x' | 'y';
+  position: number;
+  start: number;
+  end: number;
+}
+
+/** Equal gaps along `axis`, each drawn from `from` to `to` at `cross` on the other axis. */
+export interface SpacingHint {
+  axis: 'x' | 'y';
+  gaps: { from: number; to: number; cross: number }[];
+}
+
+export interface AlignmentSnap {
+  /** Correction to add to the dragged position. */
+  offset: Point;
+  guides: AlignmentGuide[];
+  spacing: SpacingHint[];
+}
+
+type Axis = 'x' | 'y';
+
+const EPSILON = 0.5;
+
+const cross = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+const start = (rect: GuideRect, axis: Axis): number => rect[axis];
+
+const end = (rect: GuideRect, axis: Axis): number => rect[axis] + (axis === 'x' ? rect.width : rect.height);
+
+const lines = (rect: GuideRect, axis: Axis): number[] => [
+  start(rect, axis),
+  (start(rect, axis) + end(rect, axis)) / 2,
+  end(rect, axis),
+];
+
+const overlapsOn = (a: GuideRect, b: GuideRect, axis: Axis): boolean =>
+  start(a, axis) < end(b, axis) && start(b, axis) < end(a, axis);
+
+const shift = (rect: GuideRect, axis: Axis, delta: number): GuideRect => ({ ...rect, [axis]: rect[axis] + delta });
+
+/** The closest rect before (`-1`) or after (`1`) `rect` on `axis` that shares part of its cross-axis span. */
+const neighbour = (rect: GuideRect, others: GuideRect[], axis: Axis, side: -1 | 1, tolerance: number) => {
+  let best: GuideRect | null = null;
+  for (const other of others) {
+    if (!overlapsOn(rect, other, cross(axis))) {
+      continue;
+    }
+    if (side < 0 && end(other, axis) <= start(rect, axis) + tolerance) {
+      if (!best || end(other, axis) > end(best, axis)) {
+        best = other;
+      }
+    } else if (side > 0 && start(other, axis) >= end(rect, axis) - tolerance) {
+      if (!best || start(other, axis) < start(best, axis)) {
+        best = other;
+      }
+    }
+  }
+  return best;
+};
+
+interface SpacingCandidate {
+  delta: number;
+  /** Pairs of rects whose gaps end up equal; the moving rect is written as `null`. */
+  pairs: [GuideRect | null, GuideRect | null][];
+}
+
+/** Positions where the moving rect would repeat a neighbouring gap or sit midway between two neighbours. */
+const spacingCandidates = (
+  moving: GuideRect,
+  others: GuideRect[],
+  axis: Axis,
+  threshold: number,
+): SpacingCandidate[] => {
+  const size = end(moving, axis) - start(moving, axis);
+  const before = neighbour(moving, others, axis, -1, threshold);
+  const after = neighbour(moving, others, axis, 1, threshold);
+  const candidates: SpacingCandidate[] = [];
+
+  if (before && after && start(after, axis) - end(before, axis) >= size) {
+    const target = (end(before, axis) + start(after, axis) - size) / 2;
+    candidates.push({ delta: target - start(moving, axis), pairs: [[before, null], [null, after]] });
+  }
+  if (before) {
+    const outer = neighbour(before, others, axis, -1, 0);
+    if (outer) {
+      const gap = start(before, axis) - end(outer, axis);
+      candidates.push({
+        delta: end(before, axis) + gap - start(moving, axis),
+        pairs: [[outer, before], [before, null]],
+      });
+    }
+  }
+  if (after) {
+    const outer = neighbour(after, others, axis, 1, 0);
+    if (outer) {
+      const gap = start(outer, axis) - end(after, axis);
+      candidates.push({
+        delta: start(after, axis) - gap - end(moving, axis),
+        pairs: [[null, after], [after, outer]],
+      });
+    }
+  }
+  return candidates;
+};
+
+/**
+ * Finds how far `moving` must shift on each axis so one of its edges or its centre lines up with
+ * another rect, or so it repeats a neighbouring gap, within `threshold`. The guides and spacing
+ * hints describe the snapped position.
+ */
+export const getAlignmentSnap = (moving: GuideRect, others: GuideRect[], threshold: number): AlignmentSnap => {
+  const offset = { x: 0, y: 0 };
+  const chosen: { axis: Axis; candidate: SpacingCandidate }[] = [];
+
+  (['x', 'y'] as const).forEach(axis => {
+    let best: { delta: number; spacing?: SpacingCandidate } | null = null;
+    for (const other of others) {
+      for (const target of lines(other, axis)) {
+        for (const source of lines(moving, axis)) {
+          const delta = target - source;
+          if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+            best = { delta };
+          }
+        }
+      }
+    }
+    for (const candidate of spacingCandidates(moving, others, axis, threshold)) {
+      const closer = !best || Math.abs(candidate.delta) < Math.abs(best.delta) - EPSILON;
+      if (Math.abs(candidate.delta) <= threshold && closer) {
+        best = { delta: candidate.delta, spacing: candidate };
+      }
+    }
+    if (best) {
+      offset[axis] = best.delta;
+      if (best.spacing) {
+        chosen.push({ axis, candidate: best.spacing });
+      }
+    }
+  });
+
+  const snapped = shift(shift(moving, 'x', offset.x), 'y', offset.y);
+  const spacing = chosen.map(({ axis, candidate }): SpacingHint => ({
+    axis,
+    gaps: candidate.pairs.map(([a, b]) => {
+      const first = a ?? snapped;
+      const second = b ?? snapped;
+      const sharedStart = Math.max(start(first, cross(axis)), start(second, cross(axis)));
+      const sharedEnd = Math.min(end(first, cross(axis)), end(second, cross(axis)));
+      return { from: end(first, axis), to: start(second, axis), cross: (sharedStart + sharedEnd) / 2 };
+    }),
+  }));
+
+  const guides: AlignmentGuide[] = [];
+  (['x', 'y'] as const).forEach(axis => {
+    lines(snapped, axis).forEach(position => {
+      const aligned = others.filter(other => lines(other, axis).some(line => Math.abs(line - position) < EPSILON));
+      const duplicate = guides.some(guide => guide.axis === axis && Math.abs(guide.position - position) < EPSILON);
+      if (aligned.length === 0 || duplicate) {
+        return;
+      }
+      const span = [snapped, ...aligned];
+      guides.push({
+        axis,
+        position,
+        start: Math.min(...span.map(rect => start(rect, cross(axis)))),
+        end: Math.max(...span.map(rect => end(rect, cross(axis)))),
+      });
+    });
+  });
+
+  return { offset, guides, spacing };
+};
@@ -0,0 +1,138 @@
+import type { Point } from '@flowtomic/flowgraph';
+
+export type FlowgraphRendererBackend = 'svg' | 'canvas';
+
+/** Zoom thresholds below which the canvas backend drops detail. */
+export interface FlowgraphLevelOfDetail {
+  /** Below this zoom node titles, port labels and group labels are not drawn. */
+  labels: number;
+  /** Below this zoom nodes become plain rectangles without ports and connections lose their markers. */
+  shapes: number;
+}
+
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CachedConnectionPath {
+  data: string;
+  /** Built on first use, so the SVG backend never pays for it. Null where `Path2D` is unavailable. */
+  readonly path: Path2D | null;
+  bounds: CanvasRect;
+  end: Point;
+  /** Direction the path arrives at `end`, in radians. */
+  endAngle: number;
+}
+
+/**
+ * Keeps the path data, bounds and `Path2D` per connection so unchanged connections are not re-routed
+ * or re-parsed on every render.
+ * Entries are dropped when their connection is invalidated or removed.
+ */
+export class ConnectionPathCache {
+  private readonly entries = new Map<string, CachedConnectionPath>();
+
+  get(id: string, build: () => string): CachedConnectionPath {
+    const cached = this.entries.get(id);
+    if (cached) {
+      return cached;
+    }
+    const entry = createCachedPath(build());
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  invalidate(ids: Iterable<string>): void {
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+  }
+
+  /** Drops entries for connections that no longer exist. */
+  retain(ids: Set<string>): void {
+    for (const id of [...this.entries.keys()]) {
+      if (!ids.has(id)) {
+        this.entries.delete(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Connection paths only use absolute `M`, `L`, `C` and `Q` commands, so the last coordinate pair is
+ * the end point and the pair before it is the previous point or the last control point.
+ */
+const createCachedPath = (data: string): CachedConnectionPath => {
+  const numbers = data.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi)?.map(Number) ?? [];
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let index = 0; index + 1 < numbers.length; index += 2) {
+    minX = Math.min(minX, numbers[index]);
+    maxX = Math.max(maxX, numbers[index]);
+    minY = Math.min(minY, numbers[index + 1]);
+    maxY = Math.max(maxY, numbers[index + 1]);
+  }
+  const count = numbers.length;
+  const end = count >= 2 ? { x: numbers[count - 2], y: numbers[count - 1] } : { x: 0, y: 0 };
+  const previous = count >= 4 ? { x: numbers[count - 4], y: numbers[count - 3] } : end;
+  const dx = end.x - previous.x;
+  const dy = end.y - previous.y;
+  let path: Path2D | null | undefined;
+  return {
+    data,
+    get path() {
+      if (path === undefined) {
+        path = typeof Path2D === 'function' && data ? new Path2D(data) : null;
+      }
+      return path;
+    },
+    // Control points bound a Bézier curve, so this box contains the whole path.
+    bounds: Number.isFinite(minX)
+      ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+      : { x: 0, y: 0, width: 0, height: 0 },
+    end,
+    endAngle: dx === 0 && dy === 0 ? 0 : Math.atan2(dy, dx),
+  };
+};
+
+export const rectsIntersect = (a: CanvasRect, b: CanvasRect): boolean =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+export const rectContains = (rect: CanvasRect, point: Point): boolean =>
+  point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+
+export const traceRoundedRect = (
+  context: CanvasRenderingContext2D,
+  rect: CanvasRect,
+  radius: number,
+): void => {
+  const r = Math.max(0, Math.min(radius, rect.width / 2, rect.height / 2));
+  const { x, y, width, height } = rect;
+  context.moveTo(x + r, y);
+  context.arcTo(x + width, y, x + width, y + height, r);
+  context.arcTo(x + width, y + height, x, y + height, r);
+  context.arcTo(x, y + height, x, y, r);
+  context.arcTo(x, y, x + width, y, r);
+  context.closePath();
+};
+
+/** Resizes the backing store to the element size times the device pixel ratio. Returns the ratio. */
+export const fitCanvasToElement = (canvas: HTMLCanvasElement, width: number, height: number): number => {
+  const ratio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  const pixelWidth = Math.max(1, Math.round(width * ratio));
+  const pixelHeight = Math.max(1, Math.round(height * ratio));
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+  }
+  return ratio;
+};
@@ -0,0 +1,369 @@
+import type { Point, Size } from '@flowtomic/flowgraph';
+
+export type FlowgraphConnectionStyle = 'bezier' | 'straight' | 'orthogonal' | 'step' | 'smoothstep';
+
+export const CONNECTION_STYLES: readonly FlowgraphConnectionStyle[] = [
+  'bezier',
+  'straight',
+  'orthogonal',
+  'step',
+  'smoothstep',
+];
+
+export interface ConnectionBounds {
+  position: Point;
+  size: Size;
+}
+
+export interface ConnectionPathOptions {
+  /** Intermediate points from `GraphConnection.path`. */
+  waypoints?: Point[];
+  /** Minimum horizontal control distance of bezier curves. */
+  minControlDistance?: number;
+  /** Length of the horizontal stub leaving and entering ports in right-angled styles. */
+  offset?: number;
+  /** Corner radius of `smoothstep` paths. */
+  radius?: number;
+  /** Rectangles `orthogonal` routes keep clear of, usually every node including both endpoints. */
+  obstacles?: ConnectionBounds[];
+}
+
+const DEFAULT_OFFSET = 20;
+const DEFAULT_RADIUS = 8;
+const MAX_ROUTING_PASSES = 4;
+const EPSILON = 1e-6;
+
+const toPolyline = (points: Point[]): string =>
+  points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+
+/** Drops repeated points and points in the middle of straight runs. */
+const simplify = (points: Point[]): Point[] => {
+  const result: Point[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.x - point.x) < EPSILON && Math.abs(last.y - point.y) < EPSILON) {
+      continue;
+    }
+    const previous = result[result.length - 2];
+    if (
+      previous &&
+      ((Math.abs(previous.x - last.x) < EPSILON && Math.abs(last.x - point.x) < EPSILON) ||
+        (Math.abs(previous.y - last.y) < EPSILON && Math.abs(last.y - point.y) < EPSILON))
+    ) {
+      result[result.length - 1] = point;
+      continue;
+    }
+    result.push(point);
+  }
+  return result;
+};
+
+const bezierPath = (start: Point, end: Point, minControlDistance: number): string => {
+  const deltaX = end.x - start.x;
+  const direction = deltaX >= 0 ? 1 : -1;
+  const control = Math.max(minControlDistance, Math.abs(deltaX) / 2);
+  const cp1x = start.x + control * direction;
+  const cp2x = end.x - control * direction;
+  return `M ${start.x} ${start.y} C ${cp1x} ${start.y} ${cp2x} ${end.y} ${end.x} ${end.y}`;
+};
+
+/**
+ * Right-angled route from an output port (leaving to the right) to an input port (entering from
+ * the left). Backward connections loop around through the vertical midpoint.
+ */
+const stepPoints = (start: Point, end: Point, offset: number): Point[] => {
+  if (end.x - start.x >= offset * 2) {
+    const midX = (start.x + end.x) / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+  const midY = (start.y + end.y) / 2;
+  return [
+    start,
+    { x: start.x + offset, y: start.y },
+    { x: start.x + offset, y: midY },
+    { x: end.x - offset, y: midY },
+    { x: end.x - offset, y: end.y },
+    end,
+  ];
+};
+
+/** Joins consecutive points with horizontal-then-vertical elbows. */
+const elbowPoints = (points: Point[]): Point[] =>
+  points.flatMap((point, index) => {
+    const next = points[index + 1];
+    return next ? [point, { x: next.x, y: point.y }] : [point];
+  });
+
+const roundedPath = (points: Point[], radius: number): string => {
+  if (points.length < 3 || radius <= 0) {
+    return toPolyline(points);
+  }
+  const commands = [`M ${points[0].x} ${points[0].y}`];
+  for (let index = 1; index < points.length - 1; index += 1) {
+    const previous = points[index - 1];
+    const corner = points[index];
+    const next = points[index + 1];
+    const before = Math.hypot(corner.x - previous.x, corner.y - previous.y);
+    const after = Math.hypot(next.x - corner.x, next.y - corner.y);
+    const r = Math.min(radius, before / 2, after / 2);
+    if (r < EPSILON) {
+      commands.push(`L ${corner.x} ${corner.y}`);
+      continue;
+    }
+    const enter = {
+      x: corner.x + ((previous.x - corner.x) / before) * r,
+      y: corner.y + ((previous.y - corner.y) / before) * r,
+    };
+    const exit = {
+      x: corner.x + ((next.x - corner.x) / after) * r,
+      y: corner.y + ((next.y - corner.y) / after) * r,
+    };
+    commands.push(`L ${enter.x} ${enter.y}`, `Q ${corner.x} ${corner.y} ${exit.x} ${exit.y}`);
+  }
+  const last = points[points.length - 1];
+  commands.push(`L ${last.x} ${last.y}`);
+  return commands.join(' ');
+};
+
+const inflate = (bounds: ConnectionBounds, margin: number): ConnectionBounds => ({
+  position: { x: bounds.position.x - margin, y: bounds.position.y - margin },
+  size: { width: bounds.size.width + margin * 2, height: bounds.size.height + margin * 2 },
+});
+
+const containsStrictly = (bounds: ConnectionBounds, point: Point): boolean =>
+  point.x > bounds.position.x + EPSILON &&
+  point.x < bounds.position.x + bounds.size.width - EPSILON &&
+  point.y > bounds.position.y + EPSILON &&
+  point.y < bounds.position.y + bounds.size.height - EPSILON;
+
+const segmentCrosses = (bounds: ConnectionBounds, from: Point, to: Point): boolean => {
+  const minX = Math.min(from.x, to.x);
+  const maxX = Math.max(from.x, to.x);
+  const minY = Math.min(from.y, to.y);
+  const maxY = Math.max(from.y, to.y);
+  return (
+    maxX > bounds.position.x + EPSILON &&
+    minX < bounds.position.x + bounds.size.width - EPSILON &&
+    maxY > bounds.position.y + EPSILON &&
+    minY < bounds.position.y + bounds.size.height - EPSILON
+  );
+};
+
+/** Minimal binary heap keyed by cost, enough for the routing search below. */
+class CostQueue {
+  private readonly items: Array<{ cost: number; key: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, cost: number): void {
+    const items = this.items;
+    items.push({ cost, key });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) {
+        break;
+      }
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { cost: number; key: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) {
+          smallest = left;
+        }
+        if (right < items.length && items[right].cost < items[smallest].cost) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Shortest route with few bends between two stub points over the sparse grid spanned by the
+ * obstacle edges. Returns `null` when the stubs are enclosed.
+ */
+const searchOrthogonal = (source: Point, target: Point, boxes: ConnectionBounds[]): Point[] | null => {
+  const unique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+  const xs = unique([
+    source.x,
+    target.x,
+    (source.x + target.x) / 2,
+    ...boxes.flatMap(box => [box.position.x, box.position.x + box.size.width]),
+  ]);
+  const ys = unique([
+    source.y,
+    target.y,
+    (source.y + target.y) / 2,
+    ...boxes.flatMap(box => [box.position.y, box.position.y + box.size.height]),
+  ]);
+  const pointAt = (key: number): Point => ({ x: xs[key % xs.length], y: ys[Math.floor(key / xs.length)] });
+  const keyOf = (xIndex: number, yIndex: number) => yIndex * xs.length + xIndex;
+  const blocked = (point: Point) => boxes.some(box => containsStrictly(box, point));
+
+  const startKey = keyOf(xs.indexOf(source.x), ys.indexOf(source.y));
+  const targetKey = keyOf(xs.indexOf(target.x), ys.indexOf(target.y));
+  if (blocked(source) || blocked(target)) {
+    return null;
+  }
+
+  // Search states are (grid point, axis of the last move); turning costs a fixed penalty.
+  const bendPenalty = Math.max(1, (Math.abs(target.x - source.x) + Math.abs(target.y - source.y)) / 4);
+  const best = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const queue = new CostQueue();
+  const startState = startKey * 2;
+  best.set(startState, 0);
+  queue.push(startState, 0);
+
+  while (queue.size > 0) {
+    const { cost, key: state } = queue.pop();
+    if (cost > (best.get(state) ?? Infinity)) {
+      continue;
+    }
+    const gridKey = state >> 1;
+    const axis = state & 1;
+    if (gridKey === targetKey) {
+      const points: Point[] = [];
+      let cursor: number | undefined = state;
+      while (cursor !== undefined) {
+        points.unshift(pointAt(cursor >> 1));
+        cursor = previous.get(cursor);
+      }
+      return points;
+    }
+    const xIndex = gridKey % xs.length;
+    const yIndex = Math.floor(gridKey / xs.length);
+    const from = pointAt(gridKey);
+    const neighbours: Array<[number, number, number]> = [
+      [xIndex - 1, yIndex, 0],
+      [xIndex + 1, yIndex, 0],
+      [xIndex, yIndex - 1, 1],
+      [xIndex, yIndex + 1, 1],
+    ];
+    for (const [nextX, nextY, nextAxis] of neighbours) {
+      if (nextX < 0 || nextY < 0 || nextX >= xs.length || nextY >= ys.length) {
+        continue;
+      }
+      const nextKey = keyOf(nextX, nextY);
+      const to = pointAt(nextKey);
+      const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+      if (blocked(to) || blocked(middle)) {
+        continue;
+      }
+      const nextState = nextKey * 2 + nextAxis;
+      const nextCost =
+        cost + Math.abs(to.x - from.x) + Math.abs(to.y - from.y) + (nextAxis !== axis ? bendPenalty : 0);
+      if (nextCost < (best.get(nextState) ?? Infinity)) {
+        best.set(nextState, nextCost);
+        previous.set(nextState, state);
+        queue.push(nextState, nextCost);
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Right-angled route that keeps `offset` clear of every obstacle. The search starts with the
+ * obstacles around the endpoints and adds any obstacle the route still crosses, falling back to a
+ * plain step route when no clear path exists.
+ */
+const orthogonalPoints = (start: Point, end: Point, obstacles: ConnectionBounds[], offset: number): Point[] => {
+  const source = { x: start.x + offset, y: start.y };
+  const target = { x: end.x - offset, y: end.y };
+  const boxes = obstacles.map(obstacle => inflate(obstacle, offset));
+  const area: ConnectionBounds = inflate(
+    {
+      position: { x: Math.min(source.x, target.x), y: Math.min(source.y, target.y) },
+      size: { width: Math.abs(target.x - source.x), height: Math.abs(target.y - source.y) },
+    },
+    offset,
+  );
+  const active = new Set(
+    boxes.filter(box =>
+      segmentCrosses(area, box.position, {
+        x: box.position.x + box.size.width,
+        y: box.position.y + box.size.height,
+      }),
+    ),
+  );
+
+  for (let pass = 0; pass < MAX_ROUTING_PASSES; pass += 1) {
+    const route = searchOrthogonal(source, target, [...active]);
+    if (!route) {
+      break;
+    }
+    const points = [start, ...route, end];
+    const crossed = boxes.filter(
+      box =>
+        !active.has(box) &&
+        points.some((point, index) => index > 0 && segmentCrosses(box, points[index - 1], point)),
+    );
+    if (crossed.length === 0) {
+      return simplify(points);
+    }
+    crossed.forEach(box => active.add(box));
+  }
+  return stepPoints(start, end, offset);
+};
+
+/** Builds the SVG path of a connection from an output anchor to an input anchor. */
+export const getConnectionPathData = (
+  style: FlowgraphConnectionStyle,
+  start: Point,
+  end: Point,
+  options: ConnectionPathOptions = {},
+): string => {
+  const offset = options.offset ?? DEFAULT_OFFSET;
+  const waypoints = options.waypoints ?? [];
+
+  if (waypoints.length > 0) {
+    const points = [start, ...waypoints, end];
+    switch (style) {
+      case 'step':
+      case 'orthogonal':
+        return toPolyline(simplify(elbowPoints(points)));
+      case 'smoothstep':
+        return roundedPath(simplify(elbowPoints(points)), options.radius ?? DEFAULT_RADIUS);
+      default:
+        return toPolyline(points);
+    }
+  }
+
+  switch (style) {
+    case 'straight':
+      return toPolyline([start, end]);
+    case 'step':
+      return toPolyline(simplify(stepPoints(start, end, offset)));
+    case 'smoothstep':
+      return roundedPath(simplify(stepPoints(start, end, offset)), options.radius ?? DEFAULT_RADIUS);
+    case 'orthogonal':
+      return toPolyline(orthogonalPoints(start, end, options.obstacles ?? [], offset));
+    default:
+      return bezierPath(start, end, options.minControlDistance ?? 0);
+  }
+};
+
+export const isConnectionStyle = (value: unknown): value is FlowgraphConnectionStyle =>
+  typeof value === 'string' && (CONNECTION_STYLES as readonly string[]).includes(value);
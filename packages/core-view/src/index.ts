@@ -1,9 +1,18 @@
 export type {
   FlowgraphRendererOptions,
+  FlowgraphRendererLayoutOptions,
   FlowgraphRendererViewport,
   FlowgraphRendererSelection,
+  FlowgraphRendererSelectionSet,
+  FlowgraphRendererSelectionInput,
+  FlowgraphRendererModifierKey,
   FlowgraphRendererTheme,
   FlowgraphConnectionValidator,
+  FlowgraphNodeRenderContext,
+  FlowgraphNodeRenderer,
+  FlowgraphNodeRendererInput,
 } from './renderer.js';
+export type { FlowgraphConnectionStyle } from './connectionPaths.js';
+export type { FlowgraphRendererBackend, FlowgraphLevelOfDetail } from './canvasScene.js';
 
 export { FlowgraphRenderer } from './renderer.js';
\ No newline at end of file
@@ -1,15 +1,41 @@
 import { select, Selection } from 'd3-selection';
 import { zoom, zoomIdentity, ZoomBehavior, ZoomTransform } from 'd3-zoom';
+import { applyGraphPatch, applyLayout, computeLayout, createFragment, parseFragment, pasteFragment } from '@flowtomic/flowgraph';
 import type {
   FlowGraph,
+  FlowGraphFragment,
+  FlowGraphAlignment,
+  FlowGraphDistribution,
+  FlowGraphHistory,
+  FlowGraphLayoutOptions,
+  FlowGraphLayoutPositions,
+  FlowGraphPasteOptions,
+  FlowGraphPasteResult,
   FlowGraphState,
   GraphConnection,
+  GraphGroup,
   GraphNode,
+  GraphPatch,
+  GraphPatchEvent,
   GraphPort,
   Point,
   PortAddress,
+  Size,
 } from '@flowtomic/flowgraph';
 import type { D3ZoomEvent } from 'd3-zoom';
+import { getAlignmentSnap } from './alignmentGuides.js';
+import type { AlignmentSnap } from './alignmentGuides.js';
+import {
+  ConnectionPathCache,
+  fitCanvasToElement,
+  rectContains,
+  rectsIntersect,
+  traceRoundedRect,
+} from './canvasScene.js';
+import type { CachedConnectionPath, CanvasRect, FlowgraphLevelOfDetail, FlowgraphRendererBackend } from './canvasScene.js';
+import { getConnectionPathData, isConnectionStyle } from './connectionPaths.js';
+import type { ConnectionBounds, FlowgraphConnectionStyle } from './connectionPaths.js';
+import { SpatialIndex } from './spatialIndex.js';
 
 export interface FlowgraphRendererTheme {
   background: string;
@@ -34,11 +60,58 @@ export interface FlowgraphRendererViewport {
   zoom: number;
 }
 
+/** The primary selection: the most recently selected node and connection. */
 export interface FlowgraphRendererSelection {
   nodeId?: string | null;
   connectionId?: string | null;
 }
 
+/** Every selected entity, in selection order. */
+export interface FlowgraphRendererSelectionSet {
+  nodeIds: Set<string>;
+  connectionIds: Set<string>;
+  groupIds: Set<string>;
+}
+
+export type FlowgraphRendererSelectionInput = Partial<Record<keyof FlowgraphRendererSelectionSet, Iterable<string>>>;
+
+export type FlowgraphRendererModifierKey = 'shift' | 'alt' | 'ctrl' | 'meta';
+
+export interface FlowgraphNodeRenderContext<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
+  node: GraphNode<TNodeData>;
+  /** Size used for the node frame and port anchors. */
+  size: Size;
+  selected: boolean;
+  theme: FlowgraphRendererTheme;
+  graph: FlowGraph<TNodeData>;
+}
+
+/**
+ * Draws a custom node body. `element` is an empty `<g>` in node-local coordinates, layered above the
+ * node frame and below the ports; the renderer keeps handling drag, selection and port anchors. HTML
+ * bodies can be mounted in a `<foreignObject>` appended to it. Elements marked with `data-no-drag`
+ * receive pointer events without starting a node drag.
+ */
+export interface FlowgraphNodeRenderer<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
+  mount(element: SVGGElement, context: FlowgraphNodeRenderContext<TNodeData>): void;
+  /** Called when the node, its size or its selection changes. Defaults to clearing `element` and mounting again. */
+  update?(element: SVGGElement, context: FlowgraphNodeRenderContext<TNodeData>): void;
+  /** Called before the node is removed, switches renderer or the renderer is destroyed. */
+  unmount?(element: SVGGElement): void;
+}
+
+/** A full renderer, or a function used as `mount` and re-run on every update. */
+export type FlowgraphNodeRendererInput<TNodeData extends Record<string, unknown> = Record<string, unknown>> =
+  | FlowgraphNodeRenderer<TNodeData>
+  | FlowgraphNodeRenderer<TNodeData>['mount'];
+
+export interface FlowgraphRendererLayoutOptions extends FlowGraphLayoutOptions {
+  /** Moves nodes smoothly from their old to their new positions. The whole animation is one history step. */
+  animate?: boolean;
+  /** Animation length in milliseconds. Defaults to 300. */
+  duration?: number;
+}
+
 export interface FlowgraphRendererOptions<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
   /** Explicit width in pixels. Defaults to 100% of the host container. */
   width?: number;
@@ -46,7 +119,10 @@ export interface FlowgraphRendererOptions<TNodeData extends Record<string, unkno
   height?: number;
   /** @deprecated - use theme.background instead. */
   background?: string;
-  /** Dimensions used for default node layout and connection anchors. */
+  /**
+   * Minimum dimensions of nodes without an explicit `GraphNode.size`. Such nodes grow to fit their
+   * label and port rows.
+   */
   nodeSize?: { width: number; height: number };
   /** Corner radius for node rectangles. */
   nodeCornerRadius?: number;
@@ -64,6 +140,10 @@ export interface FlowgraphRendererOptions<TNodeData extends Record<string, unkno
   allowPan?: boolean;
   /** When true, nodes can be dragged. */
   allowNodeDrag?: boolean;
+  /** When true, groups can be moved and resized, and dropping a node onto a group assigns it. */
+  allowGroupDrag?: boolean;
+  /** Space between member nodes and the frame of a group without explicit `bounds`. */
+  groupPadding?: number;
   /** Sync viewport changes back to FlowGraph.setViewport. Default true. */
   syncViewport?: boolean;
   /** Display a minimap preview overlay. */
@@ -74,30 +154,99 @@ export interface FlowgraphRendererOptions<TNodeData extends Record<string, unkno
   miniMapSize?: { width: number; height: number };
   /** Connection arrow style. */
   connectionArrow?: 'arrow' | 'circle' | 'none';
+  /**
+   * How connection paths are drawn. A connection can override it with a `connectionStyle` entry
+   * in its metadata. `orthogonal` routes right-angled paths around node rectangles.
+   */
+  connectionStyle?: FlowgraphConnectionStyle;
   /** Render a grid behind the graph. */
   showGrid?: boolean;
   /** Grid cell size in pixels. */
   gridSize?: number;
   /** Snap dragged nodes to the nearest grid intersection. */
   snapToGrid?: boolean;
+  /**
+   * While dragging nodes, show guides where their edges or centres line up with other nodes and
+   * hints where gaps are equal, and snap to them. Defaults to true.
+   */
+  alignmentGuides?: boolean;
+  /** Screen distance in pixels within which dragged nodes snap to alignment guides. Defaults to 6. */
+  alignmentSnapThreshold?: number;
   /** Minimum and maximum zoom levels. */
   zoomExtent?: [number, number];
+  /**
+   * `canvas` draws nodes, ports, groups and connections on one `<canvas>`, which stays fast with
+   * thousands of nodes; drafts, handles, guides and the marquee remain SVG. Custom node bodies are
+   * SVG-only, so the canvas backend draws the default body for every node. Defaults to `svg`.
+   */
+  backend?: FlowgraphRendererBackend;
+  /** Zoom thresholds below which the canvas backend hides labels and simplifies shapes. */
+  levelOfDetail?: Partial<FlowgraphLevelOfDetail>;
+  /**
+   * When true (default), the SVG backend only keeps nodes and connections near the viewport in the
+   * DOM and adds the rest as the view pans or zooms towards them.
+   */
+  virtualize?: boolean;
+  /** Screen distance in pixels rendered beyond each viewport edge when virtualizing. Defaults to 200. */
+  virtualizationMargin?: number;
   /** Theme overrides. */
   theme?: Partial<FlowgraphRendererTheme>;
   /** Custom connection validation prior to committing edge creation. */
   validateConnection?: FlowgraphConnectionValidator<TNodeData>;
+  /** Custom node bodies keyed by `GraphNode.templateId`. */
+  nodeRenderers?: Record<string, FlowgraphNodeRendererInput<TNodeData>>;
+  /**
+   * Picks a custom body per node and takes precedence over `nodeRenderers`. Return `null` or
+   * `undefined` to fall back to `nodeRenderers` and then the default body.
+   */
+  renderNode?: (node: GraphNode<TNodeData>) => FlowgraphNodeRendererInput<TNodeData> | null | undefined;
+  /**
+   * When true (default), Shift/Ctrl/Cmd-click toggles entities in the selection, Ctrl/Cmd+A selects
+   * everything and dragging the background with `marqueeModifier` held draws a selection marquee.
+   */
+  allowMultiSelection?: boolean;
+  /** Key that turns a background drag into a marquee instead of a pan. Defaults to `shift`. */
+  marqueeModifier?: FlowgraphRendererModifierKey;
+  /**
+   * When true (default), Ctrl/Cmd+C, X and V copy, cut and paste the selection through the system
+   * clipboard as a JSON `FlowGraphFragment`.
+   */
+  allowClipboard?: boolean;
+  /**
+   * When true (default), selected connections show handles for their `path` waypoints: drag a
+   * handle to move it, drag a segment midpoint to insert one and double-click a handle to remove it.
+   */
+  allowWaypointEdit?: boolean;
+  /**
+   * When true (default), selected connections show handles at both ends that can be dragged onto
+   * another port to reconnect the connection, keeping its id, metadata, colour and waypoints.
+   */
+  allowReconnect?: boolean;
+  /**
+   * Screen distance in pixels within which a connection draft snaps to the nearest compatible port.
+   * Defaults to 24; `0` disables snapping. Dropping on a node body still picks its first free port.
+   */
+  connectionSnapRadius?: number;
+  /** Key that must be held to delete a connection by double-clicking it. Defaults to `alt`. */
+  connectionDeleteModifier?: FlowgraphRendererModifierKey | 'none';
   /** Invoked when a node is selected. */
   onNodeSelect?: (node: GraphNode<TNodeData>) => void;
   /** Invoked when a connection is selected. */
   onConnectionSelect?: (connection: GraphConnection) => void;
+  /** Invoked with a copy of the selected ids whenever the selection changes. */
+  onSelectionChange?: (selection: FlowgraphRendererSelectionSet) => void;
   /** Invoked whenever the viewport (zoom/pan) changes. */
   onViewportChange?: (viewport: FlowgraphRendererViewport) => void;
   /** Invoked when a connection is created through the renderer. */
   onConnectionCreate?: (connection: GraphConnection) => void;
   /** Invoked when attempting to create a connection fails. */
   onConnectionError?: (error: unknown) => void;
+  /** Invoked when pasting a clipboard fragment into the graph fails. */
+  onClipboardError?: (error: unknown) => void;
   /** Optional initial selection. */
   initialSelection?: FlowgraphRendererSelection | null;
+  /** History bound to Ctrl/Cmd+Z (undo) and Shift+Ctrl/Cmd+Z (redo). Node drags record a single step. */
+  history?: FlowGraphHistory<TNodeData>;
 }
 
 const DEFAULT_THEME: FlowgraphRendererTheme = {
@@ -116,6 +265,17 @@ const DEFAULT_MINIMAP_SIZE = { width: 200, height: 140 };
 const DEFAULT_MINIMAP_PADDING = 12;
 const DEFAULT_GRID_SIZE = 32;
 const GRID_CANVAS_SIZE = 20000;
+const GROUP_HEADER_HEIGHT = 28;
+const GROUP_RESIZE_HANDLE_SIZE = 12;
+const GROUP_MIN_SIZE = { width: 120, height: 80 };
+const NODE_LABEL_CHAR_WIDTH = 8.5;
+const PORT_LABEL_CHAR_WIDTH = 7;
+const NODE_HORIZONTAL_PADDING = 16;
+const NODE_PORT_BOTTOM_PADDING = 20;
+const PASTE_OFFSET = 32;
+const LAYOUT_ANIMATION_DURATION = 300;
+
+const easeInOutCubic = (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
 
 const DEFAULT_OPTIONS: Required<
   Pick<
@@ -130,14 +290,29 @@ const DEFAULT_OPTIONS: Required<
     | 'allowZoom'
     | 'allowPan'
     | 'allowNodeDrag'
+    | 'allowGroupDrag'
+    | 'groupPadding'
+    | 'allowMultiSelection'
+    | 'marqueeModifier'
+    | 'allowClipboard'
+    | 'allowWaypointEdit'
+    | 'allowReconnect'
+    | 'connectionSnapRadius'
+    | 'connectionDeleteModifier'
     | 'showMiniMap'
     | 'miniMapPosition'
     | 'miniMapSize'
     | 'connectionArrow'
+    | 'connectionStyle'
     | 'showGrid'
     | 'gridSize'
     | 'snapToGrid'
+    | 'alignmentGuides'
+    | 'alignmentSnapThreshold'
     | 'zoomExtent'
+    | 'backend'
+    | 'virtualize'
+    | 'virtualizationMargin'
   >
 > = {
   nodeSize: { width: 220, height: 160 },
@@ -150,27 +325,91 @@ const DEFAULT_OPTIONS: Required<
   allowZoom: true,
   allowPan: true,
   allowNodeDrag: true,
+  allowGroupDrag: true,
+  groupPadding: 24,
+  allowMultiSelection: true,
+  marqueeModifier: 'shift',
+  allowClipboard: true,
+  allowWaypointEdit: true,
+  allowReconnect: true,
+  connectionSnapRadius: 24,
+  connectionDeleteModifier: 'alt',
   showMiniMap: true,
   miniMapPosition: 'top-right',
   miniMapSize: DEFAULT_MINIMAP_SIZE,
   connectionArrow: 'arrow',
+  connectionStyle: 'bezier',
   showGrid: false,
   gridSize: DEFAULT_GRID_SIZE,
   snapToGrid: false,
+  alignmentGuides: true,
+  alignmentSnapThreshold: 6,
   zoomExtent: [0.3, 2.5],
+  backend: 'svg',
+  virtualize: true,
+  virtualizationMargin: 200,
 };
 
+const DEFAULT_LEVEL_OF_DETAIL: FlowgraphLevelOfDetail = { labels: 0.5, shapes: 0.25 };
+
 interface DragState {
+  /** Node under the pointer; snapping is computed for it and applied to the other dragged nodes. */
   nodeId: string;
   pointerId: number;
   originX: number;
   originY: number;
-  startX: number;
-  startY: number;
+  /** Start positions of every dragged node, including `nodeId`. */
+  nodePositions: Map<string, Point>;
+  element: SVGGraphicsElement | null;
+}
+
+interface MarqueeState {
+  pointerId: number;
+  origin: Point;
+  current: Point;
+}
+
+interface WaypointDragState {
+  connectionId: string;
+  pointerId: number;
+  /** Waypoints when the drag started. */
+  path: Point[];
+  /** Index of the dragged waypoint in the edited path. */
+  index: number;
+  /** True when dragging a segment midpoint, which inserts a waypoint at `index` on the first move. */
+  insert: boolean;
   element: SVGGraphicsElement | null;
 }
 
-const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+interface WaypointHandle {
+  key: string;
+  connectionId: string;
+  index: number;
+  point: Point;
+  insert: boolean;
+}
+
+interface ConnectionEndpointHandle {
+  key: string;
+  connectionId: string;
+  end: 'source' | 'target';
+  point: Point;
+}
+
+type GroupBounds = NonNullable<GraphGroup['bounds']>;
+
+interface GroupDragState {
+  groupId: string;
+  mode: 'move' | 'resize';
+  pointerId: number;
+  originX: number;
+  originY: number;
+  /** Frame at drag start; auto-fitted groups keep following their members while moving. */
+  bounds: GroupBounds;
+  explicitBounds: boolean;
+  nodePositions: Map<string, Point>;
+  element: SVGGraphicsElement | null;
+}
 
 const truncateLabel = (value: string, max: number): string => {
   if (value.length <= max) {
@@ -179,11 +418,65 @@ const truncateLabel = (value: string, max: number): string => {
   return `${value.slice(0, Math.max(0, max - 1))}…`;
 };
 
+const createSelectionSet = (input: FlowgraphRendererSelectionInput = {}): FlowgraphRendererSelectionSet => ({
+  nodeIds: new Set(input.nodeIds ?? []),
+  connectionIds: new Set(input.connectionIds ?? []),
+  groupIds: new Set(input.groupIds ?? []),
+});
+
+const sameIds = (a: Set<string>, b: Set<string>): boolean =>
+  a.size === b.size && [...a].every((id, index) => [...b][index] === id);
+
+const lastId = (ids: Set<string>): string | null => [...ids].pop() ?? null;
+
+const isSamePort = (a: PortAddress, b: PortAddress): boolean => a.nodeId === b.nodeId && a.portId === b.portId;
+
+const portKey = (address: PortAddress): string => `${address.nodeId}\u0000${address.portId}`;
+
+const isModifierPressed = (event: MouseEvent | KeyboardEvent, key: FlowgraphRendererModifierKey): boolean =>
+  ({ shift: event.shiftKey, alt: event.altKey, ctrl: event.ctrlKey, meta: event.metaKey })[key];
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+interface CustomNodeBody<TNodeData extends Record<string, unknown>> {
+  renderer: FlowgraphNodeRendererInput<TNodeData>;
+  element: SVGGElement;
+  selected: boolean;
+}
+
+/** What the canvas backend draws under a point. */
+type CanvasHit<TNodeData extends Record<string, unknown>> =
+  | { kind: 'port'; node: GraphNode<TNodeData>; port: GraphPort }
+  | { kind: 'node'; node: GraphNode<TNodeData> }
+  | { kind: 'connection'; connection: GraphConnection }
+  | { kind: 'group'; group: GraphGroup; mode: GroupDragState['mode'] };
+
+interface RenderInvalidation {
+  /** Nodes whose elements must be refreshed. */
+  nodeIds: Set<string>;
+  /** Connections whose paths must be refreshed. */
+  connectionIds: Set<string>;
+  /** Groups whose frames must be refreshed, including groups whose members moved. */
+  groupIds: Set<string>;
+  /** True when entities were added or removed, which requires re-running the data joins. */
+  structural: boolean;
+}
+
 interface ConnectionDraft {
   pointerId: number;
-  source: PortAddress;
+  /** Fixed end of the draft; the pointer drags the opposite end. */
+  anchor: PortAddress;
+  /** End of the connection that follows the pointer. */
+  end: 'source' | 'target';
   current: Point;
-  target: PortAddress | null;
+  /** Port under the pointer that completes the draft. */
+  candidate: PortAddress | null;
+  /** Connection being reconnected; a new connection is created when unset. */
+  connectionId?: string;
+  /** Ports the draft can end on, keyed by `portKey`, computed when the draft starts. */
+  compatible: Map<string, PortAddress>;
 }
 
 interface MiniMapNodeDatum {
@@ -226,22 +519,43 @@ interface FlowgraphRendererResolvedOptions<TNodeData extends Record<string, unkn
   allowZoom: boolean;
   allowPan: boolean;
   allowNodeDrag: boolean;
+  allowGroupDrag: boolean;
+  groupPadding: number;
+  allowMultiSelection: boolean;
+  marqueeModifier: FlowgraphRendererModifierKey;
+  allowClipboard: boolean;
+  allowWaypointEdit: boolean;
+  allowReconnect: boolean;
+  connectionSnapRadius: number;
+  connectionDeleteModifier: FlowgraphRendererModifierKey | 'none';
   showMiniMap: boolean;
   miniMapPosition: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
   miniMapSize: { width: number; height: number };
   connectionArrow: 'arrow' | 'circle' | 'none';
+  connectionStyle: FlowgraphConnectionStyle;
   showGrid: boolean;
   gridSize: number;
   snapToGrid: boolean;
+  alignmentGuides: boolean;
+  alignmentSnapThreshold: number;
   zoomExtent: [number, number];
+  backend: FlowgraphRendererBackend;
+  levelOfDetail: FlowgraphLevelOfDetail;
+  virtualize: boolean;
+  virtualizationMargin: number;
   onNodeSelect?: (node: GraphNode<TNodeData>) => void;
   onConnectionSelect?: (connection: GraphConnection) => void;
+  onSelectionChange?: (selection: FlowgraphRendererSelectionSet) => void;
   onViewportChange?: (viewport: FlowgraphRendererViewport) => void;
   onConnectionCreate?: (connection: GraphConnection) => void;
   onConnectionError?: (error: unknown) => void;
+  onClipboardError?: (error: unknown) => void;
   initialSelection: FlowgraphRendererSelection | null;
   theme: FlowgraphRendererTheme;
   validateConnection?: FlowgraphConnectionValidator<TNodeData>;
+  nodeRenderers: Record<string, FlowgraphNodeRendererInput<TNodeData>>;
+  renderNode?: (node: GraphNode<TNodeData>) => FlowgraphNodeRendererInput<TNodeData> | null | undefined;
+  history?: FlowGraphHistory<TNodeData>;
 }
 
 export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
@@ -251,9 +565,13 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
   private readonly background: Selection<SVGRectElement, unknown, null, undefined>;
   private readonly scene: Selection<SVGGElement, unknown, null, undefined>;
   private readonly gridRect: Selection<SVGRectElement, unknown, null, undefined>;
+  private readonly groupLayer: Selection<SVGGElement, unknown, null, undefined>;
   private readonly connectionLayer: Selection<SVGGElement, unknown, null, undefined>;
   private readonly draftPath: Selection<SVGPathElement, unknown, null, undefined>;
   private readonly nodeLayer: Selection<SVGGElement, unknown, null, undefined>;
+  private readonly guideLayer: Selection<SVGGElement, unknown, null, undefined>;
+  private readonly connectionHandleLayer: Selection<SVGGElement, unknown, null, undefined>;
+  private readonly marqueeRect: Selection<SVGRectElement, unknown, null, undefined>;
   private readonly zoomBehavior: ZoomBehavior<SVGSVGElement, unknown>;
   private readonly overlay: Selection<HTMLElement, unknown, null, undefined>;
   private readonly miniMapRoot: Selection<HTMLElement, unknown, null, undefined>;
@@ -268,9 +586,28 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
   private readonly gridPathHorizontal: Selection<SVGPathElement, unknown, null, undefined>;
   private readonly gridPathVertical: Selection<SVGPathElement, unknown, null, undefined>;
 
-  private selection: FlowgraphRendererSelection = {};
+  private selection: FlowgraphRendererSelectionSet = createSelectionSet();
+  private state: FlowGraphState<TNodeData>;
   private options: FlowgraphRendererResolvedOptions<TNodeData>;
   private dragState: DragState | null = null;
+  private groupDragState: GroupDragState | null = null;
+  private marqueeState: MarqueeState | null = null;
+  private waypointDragState: WaypointDragState | null = null;
+  /** Last copied fragment, used when the clipboard event carries no data. */
+  private clipboard: string | null = null;
+  private pasteCount = 0;
+  private layoutAnimationFrame: number | null = null;
+  private canvas: Selection<HTMLCanvasElement, unknown, null, undefined> | null = null;
+  private readonly connectionPaths = new ConnectionPathCache();
+  private canvasFrame: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private readonly nodeIndex = new SpatialIndex();
+  private readonly connectionIndex = new SpatialIndex();
+  /** Position of each node in `state.nodes`, which is also its stacking order. */
+  private nodeOrder = new Map<string, number>();
+  /** World rect whose nodes and connections are in the DOM, or null when nothing is culled. */
+  private renderWindow: CanvasRect | null = null;
+  private readonly customNodeBodies = new Map<string, CustomNodeBody<TNodeData>>();
   private draft: ConnectionDraft | null = null;
   private unsubscribe?: () => void;
   private transform: ZoomTransform = zoomIdentity;
@@ -284,6 +621,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
   private pointerUpHandler = (event: PointerEvent) => this.handlePointerUp(event);
   private pointerCancelHandler = (event: PointerEvent) => this.handlePointerUp(event);
   private keydownHandler = (event: KeyboardEvent) => this.handleKeydown(event);
+  private clipboardHandler = (event: ClipboardEvent) => this.handleClipboardEvent(event);
 
   constructor(container: HTMLElement, graph: FlowGraph<TNodeData>, options: FlowgraphRendererOptions<TNodeData> = {}) {
     if (!(container instanceof HTMLElement)) {
@@ -298,7 +636,10 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     this.svg = select<SVGSVGElement, unknown>(container)
       .append('svg')
       .attr('class', 'fg-svg')
-      .attr('part', 'canvas');
+      .attr('part', 'canvas')
+      // Focusable so copy, cut and paste only reach the renderer the user last interacted with.
+      .attr('tabindex', 0)
+      .style('outline', 'none');
 
     if (this.options.width) {
       this.svg.attr('width', this.options.width);
@@ -337,6 +678,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .attr('width', GRID_CANVAS_SIZE)
       .attr('height', GRID_CANVAS_SIZE)
       .attr('pointer-events', 'none');
+    this.groupLayer = this.scene.append('g').attr('class', 'fg-layer fg-layer--groups');
     this.connectionLayer = this.scene.append('g').attr('class', 'fg-layer fg-layer--connections');
     this.draftPath = this.connectionLayer
       .append('path')
@@ -349,6 +691,27 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .style('opacity', 0.9)
       .style('visibility', 'hidden');
     this.nodeLayer = this.scene.append('g').attr('class', 'fg-layer fg-layer--nodes');
+    this.guideLayer = this.scene
+      .append('g')
+      .attr('class', 'fg-layer fg-layer--guides')
+      .attr('pointer-events', 'none');
+    this.connectionHandleLayer = this.scene.append('g').attr('class', 'fg-layer fg-layer--connection-handles');
+    this.marqueeRect = this.scene
+      .append('rect')
+      .attr('class', 'fg-marquee')
+      .attr('fill', this.options.theme.connectionSelected)
+      .attr('fill-opacity', 0.08)
+      .attr('stroke', this.options.theme.connectionSelected)
+      .attr('stroke-dasharray', '4 3')
+      .attr('pointer-events', 'none')
+      .style('visibility', 'hidden');
+
+    this.svg
+      .on('pointerdown.focus', event => this.handleFocusPointerDown(event as PointerEvent), true)
+      .on('pointerdown.selection', event => this.handleCanvasPointerDown(event as PointerEvent))
+      .on('pointermove.selection', event => this.handleCanvasHover(event as PointerEvent))
+      .on('click.selection', event => this.handleCanvasClick(event as MouseEvent))
+      .on('dblclick.selection', event => this.handleCanvasDoubleClick(event as MouseEvent));
 
     this.overlay = select(container)
       .append('div')
@@ -405,26 +768,43 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     this.updateMarkers();
     this.configureZoomFilter();
     this.updateInteractivity();
+    this.applyBackend();
+    if (typeof ResizeObserver === 'function') {
+      this.resizeObserver = new ResizeObserver(() => {
+        this.scheduleCanvasDraw();
+        this.updateRenderWindow();
+      });
+      this.resizeObserver.observe(this.container);
+    }
 
     if (options.initialSelection) {
-      this.selection = { ...options.initialSelection };
+      this.selection = this.toSelectionSet(options.initialSelection);
     }
 
-    const initialState = this.graph.getState();
-    this.render(initialState);
-    this.unsubscribe = this.graph.subscribe(event => {
-      this.render(event.state);
-    });
+    this.state = this.graph.getState();
+    this.render(this.state);
+    this.unsubscribe = this.graph.subscribe(event => this.handleGraphPatch(event), { mode: 'patch' });
 
     window.addEventListener('keydown', this.keydownHandler);
+    window.addEventListener('copy', this.clipboardHandler);
+    window.addEventListener('cut', this.clipboardHandler);
+    window.addEventListener('paste', this.clipboardHandler);
   }
 
   destroy(): void {
+    this.stopLayoutAnimation();
+    this.cancelCanvasDraw();
+    this.resizeObserver?.disconnect();
+    this.canvas?.remove();
     this.unsubscribe?.();
     this.detachGlobalListeners();
+    [...this.customNodeBodies.keys()].forEach(nodeId => this.unmountNodeBody(nodeId));
     this.svg.remove();
     this.overlay.remove();
     window.removeEventListener('keydown', this.keydownHandler);
+    window.removeEventListener('copy', this.clipboardHandler);
+    window.removeEventListener('cut', this.clipboardHandler);
+    window.removeEventListener('paste', this.clipboardHandler);
   }
 
   updateOptions(patch: Partial<FlowgraphRendererOptions<TNodeData>>): void {
@@ -438,21 +818,177 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     this.updateMarkers();
     this.configureZoomFilter();
     this.updateInteractivity();
-    const state = this.graph.getState();
-    this.render(state);
+    this.applyBackend();
+    this.render(this.state);
     if (patch.initialSelection !== undefined) {
       const nextSelection = patch.initialSelection ?? { nodeId: null, connectionId: null };
       this.setSelection(nextSelection);
     }
   }
 
+  /** Replaces the selection with at most one node and one connection. */
   setSelection(selection: FlowgraphRendererSelection): void {
-    this.selection = { ...selection };
-    this.syncSelection();
+    this.replaceSelection(this.toSelectionSet(selection));
   }
 
   getSelection(): FlowgraphRendererSelection {
-    return { ...this.selection };
+    return { nodeId: lastId(this.selection.nodeIds), connectionId: lastId(this.selection.connectionIds) };
+  }
+
+  setSelectedIds(selection: FlowgraphRendererSelectionInput): void {
+    this.replaceSelection(createSelectionSet(selection));
+  }
+
+  getSelectedIds(): FlowgraphRendererSelectionSet {
+    return createSelectionSet(this.selection);
+  }
+
+  selectAll(): void {
+    this.replaceSelection(
+      createSelectionSet({
+        nodeIds: this.state.nodes.map(node => node.id),
+        connectionIds: this.state.connections.map(connection => connection.id),
+        groupIds: this.state.groups.map(group => group.id),
+      }),
+    );
+  }
+
+  clearSelection(): void {
+    this.replaceSelection(createSelectionSet());
+  }
+
+  /** Copies the selected nodes and groups, with the connections between them, into a fragment. */
+  copySelection(): FlowGraphFragment<TNodeData> | null {
+    const { nodeIds, groupIds } = this.selection;
+    if (nodeIds.size === 0 && groupIds.size === 0) {
+      return null;
+    }
+    const fragment = createFragment(this.state, { nodeIds, groupIds });
+    this.clipboard = JSON.stringify(fragment);
+    this.pasteCount = 0;
+    return fragment;
+  }
+
+  cutSelection(): FlowGraphFragment<TNodeData> | null {
+    const fragment = this.copySelection();
+    if (fragment) {
+      this.removeSelection();
+    }
+    return fragment;
+  }
+
+  /**
+   * Pastes a fragment (or its JSON) with fresh ids and selects the pasted entities. Without explicit
+   * options, repeated pastes of the same fragment are offset further each time.
+   */
+  paste(
+    fragment: FlowGraphFragment<TNodeData> | string,
+    options?: FlowGraphPasteOptions,
+  ): FlowGraphPasteResult<TNodeData> {
+    const parsed = typeof fragment === 'string' ? parseFragment<TNodeData>(fragment) : fragment;
+    const serialized = JSON.stringify(parsed);
+    this.pasteCount = serialized === this.clipboard ? this.pasteCount + 1 : 1;
+    this.clipboard = serialized;
+    const offset = PASTE_OFFSET * this.pasteCount;
+    const result = pasteFragment(this.graph, parsed, options ?? { offset: { x: offset, y: offset } });
+    this.replaceSelection(
+      createSelectionSet({
+        nodeIds: result.nodes.map(node => node.id),
+        connectionIds: result.connections.map(connection => connection.id),
+        groupIds: result.groups.map(group => group.id),
+      }),
+    );
+    return result;
+  }
+
+  /** Entity handlers prevent the default pointerdown, which would otherwise have focused the SVG. */
+  private handleFocusPointerDown(event: PointerEvent): void {
+    const svg = this.svg.node();
+    if (svg && !isEditableTarget(event.target) && document.activeElement !== svg) {
+      svg.focus({ preventScroll: true });
+    }
+  }
+
+  private hasFocus(): boolean {
+    const active = document.activeElement;
+    return !!active && this.container.contains(active);
+  }
+
+  private handleClipboardEvent(event: ClipboardEvent): void {
+    if (
+      !this.options.interactive ||
+      !this.options.allowClipboard ||
+      !this.hasFocus() ||
+      isEditableTarget(event.target)
+    ) {
+      return;
+    }
+    // Leave text selected elsewhere on the page to the browser.
+    if (window.getSelection()?.toString()) {
+      return;
+    }
+
+    if (event.type === 'paste') {
+      const text = event.clipboardData?.getData('text/plain') || this.clipboard;
+      let fragment: FlowGraphFragment<TNodeData>;
+      try {
+        fragment = parseFragment<TNodeData>(text);
+      } catch {
+        return;
+      }
+      event.preventDefault();
+      try {
+        this.paste(fragment);
+      } catch (error) {
+        this.options.onClipboardError?.(error);
+      }
+      return;
+    }
+
+    const fragment = event.type === 'cut' ? this.cutSelection() : this.copySelection();
+    if (fragment) {
+      event.preventDefault();
+      event.clipboardData?.setData('text/plain', JSON.stringify(fragment));
+    }
+  }
+
+  private toSelectionSet(selection: FlowgraphRendererSelection): FlowgraphRendererSelectionSet {
+    return createSelectionSet({
+      nodeIds: selection.nodeId ? [selection.nodeId] : [],
+      connectionIds: selection.connectionId ? [selection.connectionId] : [],
+    });
+  }
+
+  private replaceSelection(next: FlowgraphRendererSelectionSet): void {
+    const changed =
+      !sameIds(this.selection.nodeIds, next.nodeIds) ||
+      !sameIds(this.selection.connectionIds, next.connectionIds) ||
+      !sameIds(this.selection.groupIds, next.groupIds);
+    this.selection = next;
+    this.syncSelection();
+    if (changed) {
+      this.options.onSelectionChange?.(createSelectionSet(next));
+    }
+  }
+
+  /**
+   * Applies a click on an entity: toggles it when `toggle` is set, keeps a multi-selection that
+   * already contains it so it can be dragged, and otherwise selects it alone. Returns whether the
+   * entity is selected afterwards.
+   */
+  private selectEntity(kind: keyof FlowgraphRendererSelectionSet, id: string, toggle: boolean): boolean {
+    const next = createSelectionSet(toggle || this.selection[kind].has(id) ? this.selection : {});
+    const selected = !(toggle && next[kind].has(id));
+    next[kind].delete(id);
+    if (selected) {
+      next[kind].add(id);
+    }
+    this.replaceSelection(next);
+    return selected;
+  }
+
+  private isToggleEvent(event: MouseEvent): boolean {
+    return this.options.allowMultiSelection && (event.shiftKey || event.ctrlKey || event.metaKey);
   }
 
   getViewport(): FlowgraphRendererViewport {
@@ -465,8 +1001,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       return;
     }
     const viewport = this.transformToViewport(this.transform);
-    const width = this.options.nodeSize.width;
-    const height = this.options.nodeSize.height;
+    const { width, height } = this.getNodeSize(node);
     const centerX = node.position.x + width / 2;
     const centerY = node.position.y + height / 2;
     const containerRect = this.container.getBoundingClientRect();
@@ -475,6 +1010,79 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     this.applyViewport({ position: { x: -offsetX, y: -offsetY }, zoom: viewport.zoom }, true);
   }
 
+  /** Aligns the selected nodes, or `nodeIds`, as one undo step. See `FlowGraph#alignNodes`. */
+  alignNodes(alignment: FlowGraphAlignment, nodeIds: Iterable<string> = this.selection.nodeIds): void {
+    this.graph.alignNodes(nodeIds, alignment, { getNodeSize: node => this.getNodeSize(node as GraphNode<TNodeData>) });
+  }
+
+  /** Spaces the selected nodes, or `nodeIds`, evenly as one undo step. See `FlowGraph#distributeNodes`. */
+  distributeNodes(direction: FlowGraphDistribution, nodeIds: Iterable<string> = this.selection.nodeIds): void {
+    this.graph.distributeNodes(nodeIds, direction, {
+      getNodeSize: node => this.getNodeSize(node as GraphNode<TNodeData>),
+    });
+  }
+
+  /**
+   * Lays out the graph, or `options.nodeIds`, with `computeLayout` using the rendered node sizes.
+   * Returns the target positions; with `animate` they are reached once the animation ends.
+   */
+  layout(options: FlowgraphRendererLayoutOptions = {}): FlowGraphLayoutPositions {
+    const { animate = false, duration = LAYOUT_ANIMATION_DURATION, ...layoutOptions } = options;
+    this.stopLayoutAnimation();
+    const positions = computeLayout(this.graph, {
+      getNodeSize: node => this.getNodeSize(node as GraphNode<TNodeData>),
+      ...layoutOptions,
+    });
+    if (!animate || duration <= 0 || typeof window.requestAnimationFrame !== 'function') {
+      applyLayout(this.graph, positions);
+      return positions;
+    }
+
+    const starts = new Map<string, Point>();
+    Object.keys(positions).forEach(nodeId => {
+      const node = this.graph.getNode(nodeId);
+      if (node) {
+        starts.set(nodeId, { ...node.position });
+      }
+    });
+    let startTime: number | null = null;
+    this.options.history?.beginGroup('layout');
+    const step = (now: number) => {
+      startTime ??= now;
+      const progress = Math.min(1, Math.max(0, (now - startTime) / duration));
+      const eased = easeInOutCubic(progress);
+      this.graph.batch(graph => {
+        starts.forEach((start, nodeId) => {
+          const end = positions[nodeId];
+          if (graph.getNode(nodeId)) {
+            graph.moveNode(nodeId, {
+              x: start.x + (end.x - start.x) * eased,
+              y: start.y + (end.y - start.y) * eased,
+            });
+          }
+        });
+      });
+      if (progress < 1) {
+        this.layoutAnimationFrame = window.requestAnimationFrame(step);
+      } else {
+        this.layoutAnimationFrame = null;
+        this.options.history?.endGroup();
+      }
+    };
+    this.layoutAnimationFrame = window.requestAnimationFrame(step);
+    return positions;
+  }
+
+  /** Stops a running layout animation where it is. */
+  private stopLayoutAnimation(): void {
+    if (this.layoutAnimationFrame === null) {
+      return;
+    }
+    window.cancelAnimationFrame(this.layoutAnimationFrame);
+    this.layoutAnimationFrame = null;
+    this.options.history?.endGroup();
+  }
+
   private mergeOptions(options: FlowgraphRendererOptions<TNodeData>): FlowgraphRendererResolvedOptions<TNodeData> {
     const theme: FlowgraphRendererTheme = {
       ...DEFAULT_THEME,
@@ -504,23 +1112,44 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       allowZoom: options.allowZoom ?? DEFAULT_OPTIONS.allowZoom,
       allowPan: options.allowPan ?? DEFAULT_OPTIONS.allowPan,
       allowNodeDrag: options.allowNodeDrag ?? DEFAULT_OPTIONS.allowNodeDrag,
+      allowGroupDrag: options.allowGroupDrag ?? DEFAULT_OPTIONS.allowGroupDrag,
+      groupPadding: Math.max(0, options.groupPadding ?? DEFAULT_OPTIONS.groupPadding),
+      allowMultiSelection: options.allowMultiSelection ?? DEFAULT_OPTIONS.allowMultiSelection,
+      marqueeModifier: options.marqueeModifier ?? DEFAULT_OPTIONS.marqueeModifier,
+      allowClipboard: options.allowClipboard ?? DEFAULT_OPTIONS.allowClipboard,
+      allowWaypointEdit: options.allowWaypointEdit ?? DEFAULT_OPTIONS.allowWaypointEdit,
+      allowReconnect: options.allowReconnect ?? DEFAULT_OPTIONS.allowReconnect,
+      connectionSnapRadius: Math.max(0, options.connectionSnapRadius ?? DEFAULT_OPTIONS.connectionSnapRadius),
+      connectionDeleteModifier: options.connectionDeleteModifier ?? DEFAULT_OPTIONS.connectionDeleteModifier,
       syncViewport: options.syncViewport ?? DEFAULT_OPTIONS.syncViewport,
       showMiniMap: options.showMiniMap ?? DEFAULT_OPTIONS.showMiniMap,
       miniMapPosition: options.miniMapPosition ?? DEFAULT_OPTIONS.miniMapPosition,
       miniMapSize,
       connectionArrow: options.connectionArrow ?? DEFAULT_OPTIONS.connectionArrow,
+      connectionStyle: options.connectionStyle ?? DEFAULT_OPTIONS.connectionStyle,
       showGrid: options.showGrid ?? DEFAULT_OPTIONS.showGrid,
       gridSize,
       snapToGrid: options.snapToGrid ?? DEFAULT_OPTIONS.snapToGrid,
+      alignmentGuides: options.alignmentGuides ?? DEFAULT_OPTIONS.alignmentGuides,
+      alignmentSnapThreshold: Math.max(0, options.alignmentSnapThreshold ?? DEFAULT_OPTIONS.alignmentSnapThreshold),
       zoomExtent: [zoomMin, zoomMax],
+      backend: options.backend ?? DEFAULT_OPTIONS.backend,
+      levelOfDetail: { ...DEFAULT_LEVEL_OF_DETAIL, ...options.levelOfDetail },
+      virtualize: options.virtualize ?? DEFAULT_OPTIONS.virtualize,
+      virtualizationMargin: Math.max(0, options.virtualizationMargin ?? DEFAULT_OPTIONS.virtualizationMargin),
       onNodeSelect: options.onNodeSelect,
       onConnectionSelect: options.onConnectionSelect,
+      onSelectionChange: options.onSelectionChange,
       onViewportChange: options.onViewportChange,
       onConnectionCreate: options.onConnectionCreate,
       onConnectionError: options.onConnectionError,
+      onClipboardError: options.onClipboardError,
       initialSelection: options.initialSelection ?? null,
       theme,
       validateConnection: options.validateConnection,
+      nodeRenderers: options.nodeRenderers ?? {},
+      renderNode: options.renderNode,
+      history: options.history,
     };
   }
 
@@ -535,7 +1164,8 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     } else {
       this.svg.attr('height', '100%');
     }
-    this.background.attr('fill', this.options.theme.background);
+    // The canvas paints the background (and grid) underneath a transparent SVG.
+    this.background.attr('fill', this.options.backend === 'canvas' ? 'transparent' : this.options.theme.background);
     this.miniMapRoot
       .style('background', this.options.theme.miniMapBackground)
       .style('display', this.options.showMiniMap ? 'block' : 'none');
@@ -545,7 +1175,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .attr('viewBox', `0 0 ${this.options.miniMapSize.width} ${this.options.miniMapSize.height}`);
     this.miniMapViewportRect.attr('stroke', this.options.theme.connection);
     this.gridRect
-      .style('visibility', this.options.showGrid ? 'visible' : 'hidden')
+      .style('visibility', this.options.showGrid && this.options.backend === 'svg' ? 'visible' : 'hidden')
       .attr('fill', this.options.showGrid ? `url(#${this.gridPatternId})` : 'none');
     this.updateGridPattern();
     this.updateZoomExtent();
@@ -607,6 +1237,9 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     if (type === 'wheel' || type === 'dblclick') {
       return this.options.allowZoom;
     }
+    if (this.isMarqueeEvent(event)) {
+      return false;
+    }
     if (type.startsWith('pointer') || type.startsWith('touch')) {
       if (!this.options.allowPan) {
         return false;
@@ -615,11 +1248,40 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       if (target && (target.closest('g.fg-node') || target.closest('g.fg-node-port'))) {
         return false;
       }
+      if (target && this.options.allowGroupDrag && target.closest('g.fg-group')) {
+        return false;
+      }
       return true;
     }
     return true;
   }
 
+  private isMarqueeEvent(event: MouseEvent): boolean {
+    return (
+      this.options.interactive &&
+      this.options.allowMultiSelection &&
+      isModifierPressed(event, this.options.marqueeModifier) &&
+      !this.isEntityEvent(event)
+    );
+  }
+
+  private isEntityEvent(event: MouseEvent): boolean {
+    const target = event.target;
+    if (this.canvas && target === this.background.node()) {
+      return this.hitTestCanvas(this.pointerToWorld(event.clientX, event.clientY)) !== null;
+    }
+    if (!(target instanceof Element)) {
+      return false;
+    }
+    return !!(
+      target.closest('g.fg-node') ||
+      target.closest('path.fg-connection--entity') ||
+      target.closest('circle.fg-waypoint') ||
+      target.closest('circle.fg-connection-endpoint') ||
+      (this.options.allowGroupDrag && target.closest('g.fg-group'))
+    );
+  }
+
   private ensureContainerSetup(): void {
     const style = this.container.style;
     if (!style.position) {
@@ -722,7 +1384,60 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     return { arrow, circle, grid, gridHorizontal, gridVertical } as const;
   }
 
-  private render(state: FlowGraphState<TNodeData>): void {
+  private handleGraphPatch(event: GraphPatchEvent<TNodeData>): void {
+    this.state = applyGraphPatch(this.state, event.patch);
+    this.render(this.state, this.createInvalidation(event.patch));
+    const { nodes, connections, groups } = event.patch;
+    if (nodes.removed.length > 0 || connections.removed.length > 0 || groups.removed.length > 0) {
+      const next = createSelectionSet(this.selection);
+      nodes.removed.forEach(node => next.nodeIds.delete(node.id));
+      connections.removed.forEach(connection => next.connectionIds.delete(connection.id));
+      groups.removed.forEach(group => next.groupIds.delete(group.id));
+      this.replaceSelection(next);
+    }
+  }
+
+  private createInvalidation(patch: GraphPatch<TNodeData>): RenderInvalidation {
+    const nodeIds = new Set<string>([
+      ...patch.nodes.added.map(node => node.id),
+      ...patch.nodes.updated.map(entry => entry.id),
+    ]);
+    const connectionIds = new Set<string>([
+      ...patch.connections.added.map(connection => connection.id),
+      ...patch.connections.updated.map(entry => entry.id),
+    ]);
+    if (nodeIds.size > 0) {
+      for (const connection of this.state.connections) {
+        if (nodeIds.has(connection.source.nodeId) || nodeIds.has(connection.target.nodeId)) {
+          connectionIds.add(connection.id);
+        }
+      }
+    }
+    const groupIds = new Set<string>([
+      ...patch.groups.added.map(group => group.id),
+      ...patch.groups.updated.map(entry => entry.id),
+    ]);
+    const memberGroups = [
+      ...patch.nodes.added,
+      ...patch.nodes.removed,
+      ...patch.nodes.updated.flatMap(entry => [entry.before, entry.after]),
+    ];
+    for (const node of memberGroups) {
+      if (node.groupId) {
+        groupIds.add(node.groupId);
+      }
+    }
+    const structural =
+      patch.nodes.added.length > 0 ||
+      patch.nodes.removed.length > 0 ||
+      patch.connections.added.length > 0 ||
+      patch.connections.removed.length > 0 ||
+      patch.groups.added.length > 0 ||
+      patch.groups.removed.length > 0;
+    return { nodeIds, connectionIds, groupIds, structural };
+  }
+
+  private render(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
     if (state.viewport && this.options.syncViewport && !this.suppressViewportEmit) {
       const viewport = state.viewport;
       const current = this.transformToViewport(this.transform);
@@ -731,19 +1446,209 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       }
     }
 
-    this.renderConnections(state);
-    this.renderNodes(state);
+    if (
+      invalidation &&
+      !invalidation.structural &&
+      invalidation.nodeIds.size === 0 &&
+      invalidation.connectionIds.size === 0 &&
+      invalidation.groupIds.size === 0
+    ) {
+      return;
+    }
+
+    this.invalidateConnectionPaths(state, invalidation);
+    this.updateSpatialIndex(state, invalidation);
+    if (!this.canvas) {
+      this.renderWindow = this.getRenderWindow();
+      this.renderGroups(state, invalidation);
+      this.renderConnections(state, invalidation);
+      this.renderNodes(state, invalidation);
+    }
     this.syncSelection();
     this.updateDraftPath();
     this.updateMiniMap(state);
   }
 
-  private renderNodes(state: FlowGraphState<TNodeData>): void {
+  private renderGroups(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
+    const nodeLookup = new Map(state.nodes.map(node => [node.id, node]));
+    const frames = new Map<string, GroupBounds>();
+    for (const group of state.groups) {
+      const bounds = this.getGroupBounds(group, nodeLookup);
+      if (bounds) {
+        frames.set(group.id, bounds);
+      }
+    }
+
+    const selection = this.groupLayer
+      .selectAll<SVGGElement, GraphGroup>('g.fg-group')
+      .data(
+        state.groups.filter(group => frames.has(group.id)),
+        group => group.id,
+      );
+
+    selection.exit().remove();
+
+    const entered = selection
+      .enter()
+      .append('g')
+      .attr('class', 'fg-group')
+      .on('pointerdown', (event, group) => this.handleGroupPointerDown(event as PointerEvent, group, 'move'));
+
+    entered
+      .append('rect')
+      .attr('class', 'fg-group-frame')
+      .attr('rx', this.options.nodeCornerRadius)
+      .attr('ry', this.options.nodeCornerRadius)
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', '6 4');
+
+    entered
+      .append('text')
+      .attr('class', 'fg-group-label')
+      .attr('x', 14)
+      .attr('y', 19)
+      .attr('font-family', 'sans-serif')
+      .attr('font-size', 12)
+      .attr('font-weight', 600);
+
+    entered
+      .append('rect')
+      .attr('class', 'fg-group-resize')
+      .attr('width', GROUP_RESIZE_HANDLE_SIZE)
+      .attr('height', GROUP_RESIZE_HANDLE_SIZE)
+      .attr('rx', 2)
+      .attr('ry', 2)
+      .on('pointerdown', (event, group) => this.handleGroupPointerDown(event as PointerEvent, group, 'resize'));
+
+    const merged = entered
+      .merge(selection as Selection<SVGGElement, GraphGroup, SVGGElement, unknown>)
+      .filter(group => !invalidation || invalidation.groupIds.has(group.id));
+    const editable = this.options.interactive && this.options.allowGroupDrag;
+
+    merged
+      .attr('transform', group => {
+        const { position } = frames.get(group.id)!;
+        return `translate(${position.x}, ${position.y})`;
+      })
+      .attr('cursor', editable ? 'move' : 'default');
+
+    merged
+      .select<SVGRectElement>('rect.fg-group-frame')
+      .attr('width', group => frames.get(group.id)!.size.width)
+      .attr('height', group => frames.get(group.id)!.size.height)
+      .attr('rx', this.options.nodeCornerRadius)
+      .attr('ry', this.options.nodeCornerRadius)
+      .attr('fill', this.options.theme.nodeFill)
+      .attr('fill-opacity', 0.35)
+      .attr('stroke', this.options.theme.nodeStroke);
+
+    merged
+      .select<SVGTextElement>('text.fg-group-label')
+      .text(group => group.label || group.id)
+      .attr('fill', this.options.theme.nodeLabel);
+
+    merged
+      .select<SVGRectElement>('rect.fg-group-resize')
+      .attr('x', group => frames.get(group.id)!.size.width - GROUP_RESIZE_HANDLE_SIZE - 4)
+      .attr('y', group => frames.get(group.id)!.size.height - GROUP_RESIZE_HANDLE_SIZE - 4)
+      .attr('fill', this.options.theme.nodeStroke)
+      .attr('cursor', 'nwse-resize')
+      .style('visibility', editable ? 'visible' : 'hidden');
+  }
+
+  /**
+   * Explicit `size` wins. Otherwise the node starts at `options.nodeSize` and grows to fit its label
+   * (up to twice the default width) and the taller of its input and output port columns.
+   */
+  private getNodeSize(node: GraphNode<TNodeData>): Size {
+    if (node.size) {
+      return node.size;
+    }
+    const { nodeSize, portRegionPadding, portSpacing } = this.options;
+    const inputs = node.ports.filter(port => port.direction === 'input');
+    const outputs = node.ports.filter(port => port.direction === 'output');
+    const widestLabel = (ports: GraphPort[]) =>
+      ports.reduce((widest, port) => Math.max(widest, (port.label ?? port.id).length), 0);
+
+    const rows = Math.max(inputs.length, outputs.length);
+    const height = rows > 0 ? portRegionPadding + (rows - 1) * portSpacing + NODE_PORT_BOTTOM_PADDING : 0;
+    const labelWidth = Math.min(
+      nodeSize.width * 2,
+      (node.label || node.id).length * NODE_LABEL_CHAR_WIDTH + NODE_HORIZONTAL_PADDING * 2,
+    );
+    const portsWidth = (widestLabel(inputs) + widestLabel(outputs)) * PORT_LABEL_CHAR_WIDTH + NODE_HORIZONTAL_PADDING * 3;
+    return {
+      width: Math.max(nodeSize.width, labelWidth, portsWidth),
+      height: Math.max(nodeSize.height, height),
+    };
+  }
+
+  /**
+   * Position of a port relative to its node. Shared by port rendering, connection anchors and draft
+   * hit-testing so they always agree. Ports that do not fit an explicit `size` are squeezed evenly.
+   */
+  private getPortOffset(node: GraphNode<TNodeData>, port: GraphPort): Point {
+    const size = this.getNodeSize(node);
+    const ports = node.ports.filter(candidate => candidate.direction === port.direction);
+    const index = Math.max(0, ports.findIndex(candidate => candidate.id === port.id));
+    const available = size.height - this.options.portRegionPadding - NODE_PORT_BOTTOM_PADDING;
+    const spacing =
+      ports.length > 1 ? Math.min(this.options.portSpacing, Math.max(0, available) / (ports.length - 1)) : 0;
+    return {
+      x: port.direction === 'input' ? 0 : size.width,
+      y: this.options.portRegionPadding + index * spacing,
+    };
+  }
+
+  /**
+   * Explicit `bounds` win; otherwise the frame is fitted around the member nodes (optionally ignoring
+   * one of them, e.g. the node being dragged). Returns null for empty groups without bounds.
+   */
+  private getGroupBounds(
+    group: GraphGroup,
+    nodeLookup: Map<string, GraphNode<TNodeData>>,
+    excludeNodeId?: string,
+  ): GroupBounds | null {
+    if (group.bounds) {
+      return group.bounds;
+    }
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const nodeId of group.nodeIds) {
+      const node = nodeId === excludeNodeId ? undefined : nodeLookup.get(nodeId);
+      if (!node) {
+        continue;
+      }
+      const size = this.getNodeSize(node);
+      minX = Math.min(minX, node.position.x);
+      minY = Math.min(minY, node.position.y);
+      maxX = Math.max(maxX, node.position.x + size.width);
+      maxY = Math.max(maxY, node.position.y + size.height);
+    }
+    if (!Number.isFinite(minX)) {
+      return null;
+    }
+    const padding = this.options.groupPadding;
+    return {
+      position: { x: minX - padding, y: minY - padding - GROUP_HEADER_HEIGHT },
+      size: {
+        width: maxX - minX + padding * 2,
+        height: maxY - minY + padding * 2 + GROUP_HEADER_HEIGHT,
+      },
+    };
+  }
+
+  private renderNodes(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
     const selection = this.nodeLayer
       .selectAll<SVGGElement, GraphNode<TNodeData>>('g.fg-node')
-      .data(state.nodes, node => node.id);
+      .data(this.getRenderedNodes(state), node => node.id);
 
-    selection.exit().remove();
+    selection
+      .exit<GraphNode<TNodeData>>()
+      .each(node => this.unmountNodeBody(node.id))
+      .remove();
 
     const entered = selection
       .enter()
@@ -756,8 +1661,8 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     entered
       .append('rect')
       .attr('class', 'fg-node-body')
-      .attr('width', this.options.nodeSize.width)
-      .attr('height', this.options.nodeSize.height)
+      .attr('width', node => this.getNodeSize(node).width)
+      .attr('height', node => this.getNodeSize(node).height)
       .attr('rx', this.options.nodeCornerRadius)
       .attr('ry', this.options.nodeCornerRadius)
       .attr('fill', this.options.theme.nodeFill)
@@ -773,7 +1678,11 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .attr('font-family', 'sans-serif')
       .attr('font-size', 14)
       .attr('font-weight', 600)
-      .text(node => node.label ?? node.id);
+      .text(node => this.getNodeLabel(node));
+
+    entered
+      .append('g')
+      .attr('class', 'fg-node-content');
 
     entered
       .append('g')
@@ -783,7 +1692,11 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .append('g')
       .attr('class', 'fg-node-ports fg-node-ports--output');
 
-    const merged = entered.merge(selection as Selection<SVGGElement, GraphNode<TNodeData>>);
+    // Nodes scrolled into the render window are new elements even when the node itself is unchanged.
+    const enteredIds = new Set(entered.data().map(node => node.id));
+    const merged = entered
+      .merge(selection as Selection<SVGGElement, GraphNode<TNodeData>>)
+      .filter(node => !invalidation || invalidation.nodeIds.has(node.id) || enteredIds.has(node.id));
 
     merged
       .attr('transform', node => `translate(${node.position.x}, ${node.position.y})`)
@@ -792,8 +1705,8 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
 
     merged
       .select<SVGRectElement>('rect.fg-node-body')
-      .attr('width', this.options.nodeSize.width)
-      .attr('height', this.options.nodeSize.height)
+      .attr('width', node => this.getNodeSize(node).width)
+      .attr('height', node => this.getNodeSize(node).height)
       .attr('rx', this.options.nodeCornerRadius)
       .attr('ry', this.options.nodeCornerRadius)
       .attr('fill', this.options.theme.nodeFill)
@@ -801,15 +1714,95 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
 
     merged
       .select<SVGTextElement>('text.fg-node-label')
-      .text(node => node.label ?? node.id)
+      .text(node => this.getNodeLabel(node))
       .attr('fill', this.options.theme.nodeLabel);
 
     merged.each((node, index, groups) => {
       const group = select(groups[index]);
+      const custom = this.renderNodeBody(groups[index], node);
+      group.classed('fg-node--custom', custom);
+      group.select('rect.fg-node-body').style('display', custom ? 'none' : 'inline');
+      group.select('text.fg-node-label').style('display', custom ? 'none' : 'inline');
       this.renderPorts(group, node);
     });
   }
 
+  private resolveNodeRenderer(node: GraphNode<TNodeData>): FlowgraphNodeRendererInput<TNodeData> | null {
+    const resolved = this.options.renderNode?.(node);
+    if (resolved) {
+      return resolved;
+    }
+    return (node.templateId && this.options.nodeRenderers[node.templateId]) || null;
+  }
+
+  private createNodeRenderContext(node: GraphNode<TNodeData>): FlowgraphNodeRenderContext<TNodeData> {
+    return {
+      node,
+      size: this.getNodeSize(node),
+      selected: this.selection.nodeIds.has(node.id),
+      theme: this.options.theme,
+      graph: this.graph,
+    };
+  }
+
+  /** Mounts or updates the custom body of a node. Returns false when the node uses the default body. */
+  private renderNodeBody(nodeElement: SVGGElement, node: GraphNode<TNodeData>): boolean {
+    const renderer = this.resolveNodeRenderer(node);
+    const existing = this.customNodeBodies.get(node.id);
+    if (existing && existing.renderer !== renderer) {
+      this.unmountNodeBody(node.id);
+    }
+    const element = nodeElement.querySelector<SVGGElement>('g.fg-node-content');
+    if (!renderer || !element) {
+      return false;
+    }
+    const context = this.createNodeRenderContext(node);
+    const body = this.customNodeBodies.get(node.id);
+    if (!body) {
+      this.customNodeBodies.set(node.id, { renderer, element, selected: context.selected });
+      if (typeof renderer === 'function') {
+        renderer(element, context);
+      } else {
+        renderer.mount(element, context);
+      }
+      return true;
+    }
+    body.selected = context.selected;
+    this.updateNodeBody(body, context);
+    return true;
+  }
+
+  private updateNodeBody(body: CustomNodeBody<TNodeData>, context: FlowgraphNodeRenderContext<TNodeData>): void {
+    const { renderer, element } = body;
+    if (typeof renderer === 'function') {
+      element.replaceChildren();
+      renderer(element, context);
+    } else if (renderer.update) {
+      renderer.update(element, context);
+    } else {
+      renderer.unmount?.(element);
+      element.replaceChildren();
+      renderer.mount(element, context);
+    }
+  }
+
+  private unmountNodeBody(nodeId: string): void {
+    const body = this.customNodeBodies.get(nodeId);
+    if (!body) {
+      return;
+    }
+    this.customNodeBodies.delete(nodeId);
+    if (typeof body.renderer !== 'function') {
+      body.renderer.unmount?.(body.element);
+    }
+    body.element.replaceChildren();
+  }
+
+  private getNodeLabel(node: GraphNode<TNodeData>): string {
+    const maxChars = Math.floor((this.getNodeSize(node).width - NODE_HORIZONTAL_PADDING * 2) / NODE_LABEL_CHAR_WIDTH);
+    return truncateLabel(node.label || node.id, Math.max(1, maxChars));
+  }
+
   private renderPorts(group: Selection<SVGGElement, GraphNode<TNodeData>, null, undefined>, node: GraphNode<TNodeData>): void {
     const inputPorts = node.ports.filter(port => port.direction === 'input');
     const outputPorts = node.ports.filter(port => port.direction === 'output');
@@ -830,14 +1823,14 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .append('circle')
       .attr('class', 'fg-node-port-handle')
       .attr('r', 5)
-      .attr('cx', -10)
+      .attr('cx', 0)
       .attr('cy', 0)
       .attr('fill', this.options.theme.portFill);
 
     inputEnter
       .append('text')
       .attr('class', 'fg-node-port-label')
-      .attr('x', 0)
+      .attr('x', 12)
       .attr('y', 4)
       .attr('fill', this.options.theme.nodeLabel)
       .attr('font-size', 12)
@@ -846,7 +1839,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
 
     const inputMerged = inputEnter.merge(inputSelection);
     inputMerged
-      .attr('transform', (_port, idx) => this.getPortTransform(idx, 'input'))
+      .attr('transform', port => this.getPortTransform(node, port))
       .attr('data-node-id', node.id)
       .attr('data-port-direction', 'input')
       .attr('data-port-id', port => port.id);
@@ -874,7 +1867,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     outputEnter
       .append('text')
       .attr('class', 'fg-node-port-label')
-      .attr('x', this.options.nodeSize.width - 60)
+      .attr('x', -12)
       .attr('y', 4)
       .attr('text-anchor', 'end')
       .attr('fill', this.options.theme.nodeLabel)
@@ -886,19 +1879,15 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .append('circle')
       .attr('class', 'fg-node-port-handle')
       .attr('r', 5)
-      .attr('cx', this.options.nodeSize.width + 10)
+      .attr('cx', 0)
       .attr('cy', 0)
       .attr('fill', this.options.theme.portFill);
 
     const outputMerged = outputEnter.merge(outputSelection);
-    outputMerged
-      .attr('transform', (_port, idx) => this.getPortTransform(idx, 'output'))
-      .select<SVGTextElement>('text.fg-node-port-label')
-      .attr('x', this.options.nodeSize.width - 60);
+    outputMerged.attr('transform', port => this.getPortTransform(node, port));
 
     outputMerged
       .select<SVGCircleElement>('circle.fg-node-port-handle')
-      .attr('cx', this.options.nodeSize.width + 10)
       .attr('fill', this.options.theme.portFill);
 
     outputMerged
@@ -910,28 +1899,27 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .attr('data-port-direction', 'output')
       .attr('data-port-id', port => port.id);
 
-    inputMerged
-      .select<SVGCircleElement>('circle.fg-node-port-handle')
-      .on('pointerenter', (event, port) => this.handlePortPointerEnter(event as PointerEvent, node, port))
-      .on('pointerleave', (event, port) => this.handlePortPointerLeave(event as PointerEvent, node, port));
-
-    outputMerged
-      .select<SVGCircleElement>('circle.fg-node-port-handle')
-      .on('pointerdown', (event, port) => this.handlePortPointerDown(event as PointerEvent, node, port));
+    // Drafts start from either direction and end on the opposite one.
+    [inputMerged, outputMerged].forEach(ports =>
+      ports
+        .select<SVGCircleElement>('circle.fg-node-port-handle')
+        .on('pointerdown', (event, port) => this.handlePortPointerDown(event as PointerEvent, node, port))
+        .on('pointerenter', (event, port) => this.handlePortPointerEnter(event as PointerEvent, node, port))
+        .on('pointerleave', (event, port) => this.handlePortPointerLeave(event as PointerEvent, node, port)),
+    );
   }
 
-  private getPortTransform(index: number, direction: 'input' | 'output'): string {
-    const y = this.options.portRegionPadding + index * this.options.portSpacing;
-    const x = direction === 'input' ? 0 : this.options.nodeSize.width;
-    return `translate(${x}, ${clamp(y, 36, this.options.nodeSize.height - 16)})`;
+  private getPortTransform(node: GraphNode<TNodeData>, port: GraphPort): string {
+    const { x, y } = this.getPortOffset(node, port);
+    return `translate(${x}, ${y})`;
   }
 
-  private renderConnections(state: FlowGraphState<TNodeData>): void {
+  private renderConnections(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
     const nodeLookup = new Map(state.nodes.map(node => [node.id, node]));
 
     const selection = this.connectionLayer
       .selectAll<SVGPathElement, GraphConnection>('path.fg-connection--entity')
-      .data(state.connections, connection => connection.id);
+      .data(this.getRenderedConnections(state), connection => connection.id);
 
     selection.exit().remove();
 
@@ -946,12 +1934,110 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       .on('pointerdown', (event, connection) => this.handleConnectionPointerDown(event as PointerEvent, connection))
       .on('dblclick', (event, connection) => this.handleConnectionDoubleClick(event as PointerEvent, connection));
 
-    const merged = entered.merge(selection as Selection<SVGPathElement, GraphConnection>);
+    // Orthogonal routes avoid every node, so any node change can move them.
+    const nodesChanged = !invalidation || invalidation.nodeIds.size > 0 || invalidation.structural;
+    const enteredIds = new Set(entered.data().map(connection => connection.id));
+    const merged = entered
+      .merge(selection as Selection<SVGPathElement, GraphConnection>)
+      .filter(
+        connection =>
+          !invalidation ||
+          invalidation.connectionIds.has(connection.id) ||
+          enteredIds.has(connection.id) ||
+          (nodesChanged && this.getConnectionStyle(connection) === 'orthogonal'),
+      );
     const markerUrl = this.getConnectionMarkerUrl();
+    let obstacles: ConnectionBounds[] | undefined;
+    const getObstacles = () =>
+      (obstacles ??= state.nodes.map(node => ({ position: node.position, size: this.getNodeSize(node) })));
     merged
-      .attr('d', connection => this.getConnectionPath(connection, nodeLookup))
+      .attr('d', connection => this.getCachedConnectionPath(connection, nodeLookup, getObstacles).data)
       .attr('stroke', connection => connection.color ?? this.options.theme.connection)
       .attr('marker-end', markerUrl ?? null);
+    this.renderConnectionHandles();
+  }
+
+  /** Draws endpoint, waypoint and segment-midpoint handles for the selected connections. */
+  private renderConnectionHandles(): void {
+    const handles: WaypointHandle[] = [];
+    const endpoints: ConnectionEndpointHandle[] = [];
+    if (this.options.interactive) {
+      const nodeLookup = new Map(this.state.nodes.map(node => [node.id, node]));
+      for (const connection of this.state.connections) {
+        if (!this.selection.connectionIds.has(connection.id)) {
+          continue;
+        }
+        const anchors = this.getConnectionAnchors(connection, nodeLookup);
+        if (!anchors) {
+          continue;
+        }
+        if (this.options.allowReconnect) {
+          endpoints.push(
+            { key: `${connection.id}:source`, connectionId: connection.id, end: 'source', point: anchors.start },
+            { key: `${connection.id}:target`, connectionId: connection.id, end: 'target', point: anchors.end },
+          );
+        }
+        if (!this.options.allowWaypointEdit) {
+          continue;
+        }
+        const path = connection.path ?? [];
+        const points = [anchors.start, ...path, anchors.end];
+        points.slice(1).forEach((point, index) => {
+          const previous = points[index];
+          handles.push({
+            key: `${connection.id}:mid:${index}`,
+            connectionId: connection.id,
+            index,
+            point: { x: (previous.x + point.x) / 2, y: (previous.y + point.y) / 2 },
+            insert: true,
+          });
+        });
+        path.forEach((point, index) =>
+          handles.push({ key: `${connection.id}:${index}`, connectionId: connection.id, index, point, insert: false }),
+        );
+      }
+    }
+
+    const { theme } = this.options;
+    const endpointSelection = this.connectionHandleLayer
+      .selectAll<SVGCircleElement, ConnectionEndpointHandle>('circle.fg-connection-endpoint')
+      .data(endpoints, handle => handle.key);
+    endpointSelection.exit().remove();
+    endpointSelection
+      .enter()
+      .append('circle')
+      .attr('class', 'fg-connection-endpoint')
+      .attr('r', 7)
+      .attr('stroke-width', 2)
+      .style('cursor', 'crosshair')
+      .on('pointerdown', (event, handle) => this.handleEndpointPointerDown(event as PointerEvent, handle))
+      .merge(endpointSelection)
+      .attr('data-end', handle => handle.end)
+      .attr('cx', handle => handle.point.x)
+      .attr('cy', handle => handle.point.y)
+      .attr('fill', theme.connectionSelected)
+      .attr('stroke', theme.background);
+
+    const selection = this.connectionHandleLayer
+      .selectAll<SVGCircleElement, WaypointHandle>('circle.fg-waypoint')
+      .data(handles, handle => handle.key);
+    selection.exit().remove();
+    selection
+      .enter()
+      .append('circle')
+      .attr('class', 'fg-waypoint')
+      .style('cursor', 'move')
+      .on('pointerdown', (event, handle) => this.handleWaypointPointerDown(event as PointerEvent, handle))
+      .on('dblclick', (event, handle) => this.handleWaypointDoubleClick(event as MouseEvent, handle))
+      .merge(selection)
+      .classed('fg-waypoint--midpoint', handle => handle.insert)
+      .attr('cx', handle => handle.point.x)
+      .attr('cy', handle => handle.point.y)
+      .attr('r', handle => (handle.insert ? 4 : 6))
+      .attr('fill', handle => (handle.insert ? theme.connectionSelected : theme.background))
+      .attr('fill-opacity', handle => (handle.insert ? 0.5 : 1))
+      .attr('stroke', theme.connectionSelected)
+      .attr('stroke-width', 2);
   }
 
   private getConnectionMarkerUrl(): string | null {
@@ -965,58 +2051,607 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     }
   }
 
+  private getConnectionStyle(connection: GraphConnection): FlowgraphConnectionStyle {
+    const style = connection.metadata?.connectionStyle;
+    return isConnectionStyle(style) ? style : this.options.connectionStyle;
+  }
+
   private getConnectionPath(
     connection: GraphConnection,
     nodeLookup: Map<string, GraphNode<TNodeData>>,
+    getObstacles: () => ConnectionBounds[],
   ): string {
+    const anchors = this.getConnectionAnchors(connection, nodeLookup);
+    if (!anchors) {
+      return '';
+    }
+    const { start, end } = anchors;
+    const style = this.getConnectionStyle(connection);
+    return getConnectionPathData(style, start, end, {
+      waypoints: connection.path,
+      minControlDistance: this.options.connectionMinControlDistance,
+      obstacles: style === 'orthogonal' && !connection.path?.length ? getObstacles() : undefined,
+    });
+  }
+
+  private getConnectionAnchors(
+    connection: GraphConnection,
+    nodeLookup: Map<string, GraphNode<TNodeData>>,
+  ): { start: Point; end: Point } | null {
     const sourceNode = nodeLookup.get(connection.source.nodeId);
     const targetNode = nodeLookup.get(connection.target.nodeId);
-    if (!sourceNode || !targetNode) {
-      return '';
+    const sourcePort = sourceNode?.ports.find(port => port.id === connection.source.portId);
+    const targetPort = targetNode?.ports.find(port => port.id === connection.target.portId);
+    if (!sourceNode || !targetNode || !sourcePort || !targetPort) {
+      return null;
     }
+    return { start: this.getPortAnchor(sourceNode, sourcePort), end: this.getPortAnchor(targetNode, targetPort) };
+  }
 
-    const sourcePort = sourceNode.ports.find(port => port.id === connection.source.portId);
-    const targetPort = targetNode.ports.find(port => port.id === connection.target.portId);
-    if (!sourcePort || !targetPort) {
-      return '';
+  private getPortAnchor(node: GraphNode<TNodeData>, port: GraphPort): Point {
+    const offset = this.getPortOffset(node, port);
+    return { x: node.position.x + offset.x, y: node.position.y + offset.y };
+  }
+
+  /** Creates or removes the canvas layer. SVG keeps the background events, overlays and handles. */
+  private applyBackend(): void {
+    if (this.options.backend === 'canvas' && !this.canvas) {
+      this.canvas = select(this.container)
+        .insert<HTMLCanvasElement>('canvas', ':first-child')
+        .attr('class', 'fg-canvas')
+        .style('position', 'absolute')
+        .style('inset', '0')
+        .style('width', '100%')
+        .style('height', '100%')
+        .style('pointer-events', 'none');
+      this.svg.style('position', 'relative');
+      [...this.customNodeBodies.keys()].forEach(nodeId => this.unmountNodeBody(nodeId));
+      this.groupLayer.selectAll('*').remove();
+      this.connectionLayer.selectAll('path.fg-connection--entity').remove();
+      this.nodeLayer.selectAll('*').remove();
+    } else if (this.options.backend === 'svg' && this.canvas) {
+      this.cancelCanvasDraw();
+      this.canvas.remove();
+      this.canvas = null;
+      this.connectionPaths.clear();
+      this.svg.style('position', 'static');
     }
+  }
 
-    const start = this.getPortAnchor(sourceNode, sourcePort);
-    const end = this.getPortAnchor(targetNode, targetPort);
+  /** Drops cached paths of connections whose route may have changed. */
+  private invalidateConnectionPaths(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
+    if (!invalidation) {
+      this.connectionPaths.clear();
+      return;
+    }
+    this.connectionPaths.invalidate(invalidation.connectionIds);
+    if (invalidation.nodeIds.size > 0 || invalidation.structural) {
+      this.connectionPaths.invalidate(
+        state.connections
+          .filter(connection => this.getConnectionStyle(connection) === 'orthogonal')
+          .map(connection => connection.id),
+      );
+    }
+    if (invalidation.structural) {
+      this.connectionPaths.retain(new Set(state.connections.map(connection => connection.id)));
+    }
+  }
 
-    if (connection.path && connection.path.length > 0) {
-      const segments = connection.path.map(point => `L ${point.x} ${point.y}`).join(' ');
-      return `M ${start.x} ${start.y} ${segments} L ${end.x} ${end.y}`;
+  /** Keeps node and connection bounds in the spatial indexes used for culling and hit-testing. */
+  private updateSpatialIndex(state: FlowGraphState<TNodeData>, invalidation?: RenderInvalidation): void {
+    const full = !invalidation || invalidation.structural;
+    if (full) {
+      this.nodeOrder = new Map(state.nodes.map((node, index) => [node.id, index]));
+      this.nodeIndex.retain(new Set(this.nodeOrder.keys()));
+      this.connectionIndex.retain(new Set(state.connections.map(connection => connection.id)));
+    }
+    for (const node of state.nodes) {
+      if (full || invalidation.nodeIds.has(node.id)) {
+        this.nodeIndex.set(node.id, { ...node.position, ...this.getNodeSize(node) });
+      }
     }
 
-    const deltaX = end.x - start.x;
-    const direction = deltaX >= 0 ? 1 : -1;
-    const control = Math.max(this.options.connectionMinControlDistance, Math.abs(deltaX) / 2);
+    const nodeLookup = new Map(state.nodes.map(node => [node.id, node]));
+    let obstacles: ConnectionBounds[] | undefined;
+    const getObstacles = () =>
+      (obstacles ??= state.nodes.map(node => ({ position: node.position, size: this.getNodeSize(node) })));
+    for (const connection of state.connections) {
+      const entry = this.getCachedConnectionPath(connection, nodeLookup, getObstacles);
+      if (entry.data) {
+        this.connectionIndex.set(connection.id, entry.bounds);
+      } else {
+        this.connectionIndex.delete(connection.id);
+      }
+    }
+  }
 
-    const cp1x = start.x + control * direction;
-    const cp2x = end.x - control * direction;
+  /** The visible world rect grown by `margin` screen pixels, or null before the container has a size. */
+  private getViewRect(margin: number): CanvasRect | null {
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    if (!width || !height) {
+      return null;
+    }
+    const { x, y, k } = this.transform;
+    return {
+      x: (-x - margin) / k,
+      y: (-y - margin) / k,
+      width: (width + margin * 2) / k,
+      height: (height + margin * 2) / k,
+    };
+  }
 
-    return `M ${start.x} ${start.y} C ${cp1x} ${start.y} ${cp2x} ${end.y} ${end.x} ${end.y}`;
+  private getRenderWindow(): CanvasRect | null {
+    return this.options.virtualize && !this.canvas ? this.getViewRect(this.options.virtualizationMargin) : null;
   }
 
-  private getPortAnchor(node: GraphNode<TNodeData>, port: GraphPort): Point {
-    const ports = node.ports.filter(candidate => candidate.direction === port.direction);
-    const index = ports.findIndex(candidate => candidate.id === port.id);
-    const y = node.position.y + this.options.portRegionPadding + index * this.options.portSpacing;
-    const x = port.direction === 'input' ? node.position.x : node.position.x + this.options.nodeSize.width;
-    return { x, y };
+  /**
+   * Re-joins nodes and connections when the view leaves the rendered window, or when zooming in has
+   * made the window much larger than needed. Panning within the margin touches no DOM.
+   */
+  private updateRenderWindow(): void {
+    const next = this.getRenderWindow();
+    const current = this.renderWindow;
+    const view = this.getViewRect(0);
+    if (!next || !view) {
+      return;
+    }
+    if (
+      current &&
+      rectContains(current, view) &&
+      rectContains(current, { x: view.x + view.width, y: view.y + view.height }) &&
+      current.width <= next.width * 2
+    ) {
+      return;
+    }
+    this.renderWindow = next;
+    const unchanged: RenderInvalidation = {
+      nodeIds: new Set(),
+      connectionIds: new Set(),
+      groupIds: new Set(),
+      structural: false,
+    };
+    this.renderConnections(this.state, unchanged);
+    this.renderNodes(this.state, unchanged);
+    this.syncSelection();
+    if (this.draft) {
+      this.updateDraftIndicators();
+    }
+  }
+
+  /** Nodes whose bounds intersect `rect`, bottom-most first. */
+  private findNodesIn(rect: CanvasRect): GraphNode<TNodeData>[] {
+    const nodes: GraphNode<TNodeData>[] = [];
+    for (const nodeId of this.nodeIndex.search(rect)) {
+      const node = this.state.nodes[this.nodeOrder.get(nodeId) ?? -1];
+      if (node?.id === nodeId) {
+        nodes.push(node);
+      }
+    }
+    return nodes.sort((a, b) => (this.nodeOrder.get(a.id) ?? 0) - (this.nodeOrder.get(b.id) ?? 0));
+  }
+
+  /** Nodes inside the render window, in state order. */
+  private getRenderedNodes(state: FlowGraphState<TNodeData>): GraphNode<TNodeData>[] {
+    if (!this.renderWindow) {
+      return state.nodes;
+    }
+    const visible = this.nodeIndex.search(this.renderWindow);
+    return state.nodes.filter(node => visible.has(node.id));
+  }
+
+  private getRenderedConnections(state: FlowGraphState<TNodeData>): GraphConnection[] {
+    if (!this.renderWindow) {
+      return state.connections;
+    }
+    const visible = this.connectionIndex.search(this.renderWindow);
+    return state.connections.filter(connection => visible.has(connection.id));
+  }
+
+  /** Coalesces redraws into one per animation frame. */
+  private scheduleCanvasDraw(): void {
+    if (!this.canvas || this.canvasFrame !== null) {
+      return;
+    }
+    if (typeof window.requestAnimationFrame !== 'function') {
+      this.drawCanvas();
+      return;
+    }
+    this.canvasFrame = window.requestAnimationFrame(() => {
+      this.canvasFrame = null;
+      this.drawCanvas();
+    });
+  }
+
+  private cancelCanvasDraw(): void {
+    if (this.canvasFrame !== null) {
+      window.cancelAnimationFrame(this.canvasFrame);
+      this.canvasFrame = null;
+    }
+  }
+
+  private getCanvasContext(): CanvasRenderingContext2D | null {
+    return this.canvas?.node()?.getContext('2d') ?? null;
+  }
+
+  private drawCanvas(): void {
+    const canvas = this.canvas?.node();
+    const context = this.getCanvasContext();
+    if (!canvas || !context) {
+      return;
+    }
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    const ratio = fitCanvasToElement(canvas, width, height);
+    const { x, y, k } = this.transform;
+    const { theme, levelOfDetail } = this.options;
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.globalAlpha = 1;
+    context.fillStyle = theme.background;
+    context.fillRect(0, 0, width, height);
+    context.setTransform(ratio * k, 0, 0, ratio * k, ratio * x, ratio * y);
+
+    const view: CanvasRect = { x: -x / k, y: -y / k, width: width / k, height: height / k };
+    const showLabels = k >= levelOfDetail.labels;
+    const showShapes = k >= levelOfDetail.shapes;
+    const nodeLookup = new Map(this.state.nodes.map(node => [node.id, node]));
+    if (this.options.showGrid) {
+      this.drawCanvasGrid(context, view);
+    }
+    this.drawCanvasGroups(context, view, nodeLookup, showLabels);
+    this.drawCanvasConnections(context, view, nodeLookup, showShapes);
+    this.drawCanvasNodes(context, view, showLabels, showShapes);
+  }
+
+  private drawCanvasGrid(context: CanvasRenderingContext2D, view: CanvasRect): void {
+    const size = Math.max(4, this.options.gridSize);
+    if (size * this.transform.k < 4) {
+      return;
+    }
+    context.beginPath();
+    for (let x = Math.floor(view.x / size) * size; x <= view.x + view.width; x += size) {
+      context.moveTo(x, view.y);
+      context.lineTo(x, view.y + view.height);
+    }
+    for (let y = Math.floor(view.y / size) * size; y <= view.y + view.height; y += size) {
+      context.moveTo(view.x, y);
+      context.lineTo(view.x + view.width, y);
+    }
+    context.globalAlpha = 0.35;
+    context.strokeStyle = this.options.theme.nodeStroke;
+    context.lineWidth = 0.5;
+    context.stroke();
+    context.globalAlpha = 1;
+  }
+
+  private drawCanvasGroups(
+    context: CanvasRenderingContext2D,
+    view: CanvasRect,
+    nodeLookup: Map<string, GraphNode<TNodeData>>,
+    showLabels: boolean,
+  ): void {
+    const { theme, nodeCornerRadius } = this.options;
+    const editable = this.options.interactive && this.options.allowGroupDrag;
+    for (const group of this.state.groups) {
+      const bounds = this.getGroupBounds(group, nodeLookup);
+      if (!bounds) {
+        continue;
+      }
+      const rect = { ...bounds.position, ...bounds.size };
+      if (!rectsIntersect(rect, view)) {
+        continue;
+      }
+      context.beginPath();
+      traceRoundedRect(context, rect, nodeCornerRadius);
+      context.globalAlpha = 0.35;
+      context.fillStyle = theme.nodeFill;
+      context.fill();
+      context.globalAlpha = 1;
+      context.setLineDash([6, 4]);
+      context.lineWidth = 1.5;
+      context.strokeStyle = this.selection.groupIds.has(group.id) ? theme.connectionSelected : theme.nodeStroke;
+      context.stroke();
+      context.setLineDash([]);
+      if (showLabels) {
+        context.font = '600 12px sans-serif';
+        context.textAlign = 'left';
+        context.fillStyle = theme.nodeLabel;
+        context.fillText(group.label || group.id, rect.x + 14, rect.y + 19);
+      }
+      if (editable) {
+        context.fillStyle = theme.nodeStroke;
+        context.fillRect(
+          rect.x + rect.width - GROUP_RESIZE_HANDLE_SIZE - 4,
+          rect.y + rect.height - GROUP_RESIZE_HANDLE_SIZE - 4,
+          GROUP_RESIZE_HANDLE_SIZE,
+          GROUP_RESIZE_HANDLE_SIZE,
+        );
+      }
+    }
+  }
+
+  private getCachedConnectionPath(
+    connection: GraphConnection,
+    nodeLookup: Map<string, GraphNode<TNodeData>>,
+    getObstacles: () => ConnectionBounds[],
+  ): CachedConnectionPath {
+    return this.connectionPaths.get(connection.id, () => this.getConnectionPath(connection, nodeLookup, getObstacles));
+  }
+
+  private drawCanvasConnections(
+    context: CanvasRenderingContext2D,
+    view: CanvasRect,
+    nodeLookup: Map<string, GraphNode<TNodeData>>,
+    showShapes: boolean,
+  ): void {
+    const { theme, connectionArrow } = this.options;
+    let obstacles: ConnectionBounds[] | undefined;
+    const getObstacles = () =>
+      (obstacles ??= this.state.nodes.map(node => ({ position: node.position, size: this.getNodeSize(node) })));
+    for (const connection of this.state.connections) {
+      if (connection.id === this.draft?.connectionId) {
+        continue;
+      }
+      const entry = this.getCachedConnectionPath(connection, nodeLookup, getObstacles);
+      if (!entry.path || !rectsIntersect(entry.bounds, view)) {
+        continue;
+      }
+      const selected = this.selection.connectionIds.has(connection.id);
+      const color = selected
+        ? theme.connectionSelected ?? connection.color ?? theme.connection
+        : connection.color ?? theme.connection;
+      context.globalAlpha = selected ? 1 : 0.92;
+      context.strokeStyle = color;
+      context.lineWidth = selected ? 3 : 2;
+      context.stroke(entry.path);
+      if (showShapes && connectionArrow !== 'none') {
+        context.save();
+        context.translate(entry.end.x, entry.end.y);
+        context.rotate(entry.endAngle);
+        context.beginPath();
+        if (connectionArrow === 'arrow') {
+          context.moveTo(-8, -4);
+          context.lineTo(0, 0);
+          context.lineTo(-8, 4);
+          context.lineWidth = 1.5;
+          context.stroke();
+        } else {
+          context.arc(0, 0, 2.5, 0, Math.PI * 2);
+          context.fillStyle = color;
+          context.fill();
+        }
+        context.restore();
+      }
+    }
+    context.globalAlpha = 1;
+  }
+
+  private drawCanvasNodes(
+    context: CanvasRenderingContext2D,
+    view: CanvasRect,
+    showLabels: boolean,
+    showShapes: boolean,
+  ): void {
+    const { theme, nodeCornerRadius } = this.options;
+    const { nodeIds } = this.selection;
+    const visible = this.findNodesIn(view);
+
+    if (!showShapes) {
+      // Far out, every node is a plain rectangle: one path per stroke colour keeps 10k nodes cheap.
+      [false, true].forEach(selected => {
+        context.beginPath();
+        for (const node of visible) {
+          if (nodeIds.has(node.id) === selected) {
+            const size = this.getNodeSize(node);
+            context.rect(node.position.x, node.position.y, size.width, size.height);
+          }
+        }
+        context.fillStyle = theme.nodeFill;
+        context.fill();
+        context.strokeStyle = selected ? theme.connectionSelected : theme.nodeStroke;
+        context.lineWidth = selected ? 2.5 : 1.5;
+        context.stroke();
+      });
+      return;
+    }
+
+    const draft = this.draft;
+    for (const node of visible) {
+      const size = this.getNodeSize(node);
+      const selected = nodeIds.has(node.id);
+      context.beginPath();
+      traceRoundedRect(context, { ...node.position, ...size }, nodeCornerRadius);
+      context.fillStyle = theme.nodeFill;
+      context.fill();
+      context.strokeStyle = selected ? theme.connectionSelected : theme.nodeStroke;
+      context.lineWidth = selected ? 2.5 : 1.5;
+      context.stroke();
+      if (showLabels) {
+        context.font = '600 14px sans-serif';
+        context.textAlign = 'left';
+        context.fillStyle = theme.nodeLabel;
+        context.fillText(this.getNodeLabel(node), node.position.x + 16, node.position.y + 26);
+      }
+
+      for (const port of node.ports) {
+        const { x, y } = this.getPortAnchor(node, port);
+        const address = { nodeId: node.id, portId: port.id };
+        const compatible = !!draft && draft.compatible.has(portKey(address));
+        const isAnchor = !!draft && isSamePort(draft.anchor, address);
+        context.globalAlpha = !draft || compatible || isAnchor ? 1 : 0.35;
+        context.beginPath();
+        context.arc(x, y, 5, 0, Math.PI * 2);
+        context.fillStyle = isAnchor
+          ? theme.connectionSelected
+          : draft?.candidate && isSamePort(draft.candidate, address)
+            ? theme.connection
+            : theme.portFill;
+        context.fill();
+        if (compatible) {
+          context.strokeStyle = theme.connection;
+          context.lineWidth = 3;
+          context.stroke();
+        }
+        context.globalAlpha = 1;
+        if (showLabels) {
+          context.font = '12px sans-serif';
+          context.fillStyle = theme.nodeLabel;
+          context.textAlign = port.direction === 'input' ? 'left' : 'right';
+          context.fillText(port.label ?? port.id, x + (port.direction === 'input' ? 12 : -12), y + 4);
+        }
+      }
+    }
+  }
+
+  /** Topmost first: a node's ports, then its body, then connections, then group handles and frames. */
+  private hitTestCanvas(point: Point): CanvasHit<TNodeData> | null {
+    const k = this.transform.k || 1;
+    const portRadius = Math.max(6, 8 / k);
+    const showPorts = k >= this.options.levelOfDetail.shapes;
+    const nodes = this.state.nodes;
+    const candidates = this.findNodesIn({
+      x: point.x - portRadius,
+      y: point.y - portRadius,
+      width: portRadius * 2,
+      height: portRadius * 2,
+    });
+    for (let index = candidates.length - 1; index >= 0; index -= 1) {
+      const node = candidates[index];
+      if (showPorts) {
+        for (const port of node.ports) {
+          const anchor = this.getPortAnchor(node, port);
+          if (Math.hypot(anchor.x - point.x, anchor.y - point.y) <= portRadius) {
+            return { kind: 'port', node, port };
+          }
+        }
+      }
+      if (rectContains({ ...node.position, ...this.getNodeSize(node) }, point)) {
+        return { kind: 'node', node };
+      }
+    }
+
+    const context = this.getCanvasContext();
+    if (context) {
+      const nodeLookup = new Map(nodes.map(node => [node.id, node]));
+      let obstacles: ConnectionBounds[] | undefined;
+      const getObstacles = () =>
+        (obstacles ??= nodes.map(node => ({ position: node.position, size: this.getNodeSize(node) })));
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.lineWidth = 8 / k;
+      const connections = this.state.connections;
+      for (let index = connections.length - 1; index >= 0; index -= 1) {
+        const entry = this.getCachedConnectionPath(connections[index], nodeLookup, getObstacles);
+        if (entry.path && context.isPointInStroke(entry.path, point.x, point.y)) {
+          context.restore();
+          return { kind: 'connection', connection: connections[index] };
+        }
+      }
+      context.restore();
+    }
+
+    if (!this.options.allowGroupDrag) {
+      return null;
+    }
+    const nodeLookup = new Map(nodes.map(node => [node.id, node]));
+    const groups = this.state.groups;
+    for (let index = groups.length - 1; index >= 0; index -= 1) {
+      const bounds = this.getGroupBounds(groups[index], nodeLookup);
+      if (!bounds) {
+        continue;
+      }
+      const handle = {
+        x: bounds.position.x + bounds.size.width - GROUP_RESIZE_HANDLE_SIZE - 4,
+        y: bounds.position.y + bounds.size.height - GROUP_RESIZE_HANDLE_SIZE - 4,
+        width: GROUP_RESIZE_HANDLE_SIZE,
+        height: GROUP_RESIZE_HANDLE_SIZE,
+      };
+      if (rectContains(handle, point)) {
+        return { kind: 'group', group: groups[index], mode: 'resize' };
+      }
+      if (rectContains({ ...bounds.position, ...bounds.size }, point)) {
+        return { kind: 'group', group: groups[index], mode: 'move' };
+      }
+    }
+    return null;
+  }
+
+  /** Routes a pointerdown on the canvas backend to the handler the SVG element would have called. */
+  private dispatchCanvasPointerDown(event: PointerEvent): boolean {
+    if (!this.options.interactive) {
+      return false;
+    }
+    const hit = this.hitTestCanvas(this.pointerToWorld(event.clientX, event.clientY));
+    switch (hit?.kind) {
+      case 'port':
+        this.handlePortPointerDown(event, hit.node, hit.port);
+        return true;
+      case 'node':
+        this.handleNodePointerDown(event, hit.node);
+        return true;
+      case 'connection':
+        this.handleConnectionPointerDown(event, hit.connection);
+        return true;
+      case 'group':
+        this.handleGroupPointerDown(event, hit.group, hit.mode);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private handleCanvasDoubleClick(event: MouseEvent): void {
+    if (!this.canvas || !this.options.interactive) {
+      return;
+    }
+    const hit = this.hitTestCanvas(this.pointerToWorld(event.clientX, event.clientY));
+    if (hit?.kind === 'node') {
+      this.handleNodeDoubleClick(event as PointerEvent, hit.node);
+    } else if (hit?.kind === 'connection') {
+      this.handleConnectionDoubleClick(event as PointerEvent, hit.connection);
+    }
+  }
+
+  /** The canvas has no per-entity cursors, so the SVG cursor follows what is under the pointer. */
+  private handleCanvasHover(event: PointerEvent): void {
+    if (!this.canvas || !this.options.interactive || event.buttons !== 0) {
+      return;
+    }
+    if (this.dragState || this.groupDragState || this.waypointDragState || this.draft || this.marqueeState) {
+      return;
+    }
+    const hit = this.hitTestCanvas(this.pointerToWorld(event.clientX, event.clientY));
+    const cursor =
+      hit?.kind === 'port'
+        ? 'crosshair'
+        : hit?.kind === 'node'
+          ? this.options.allowNodeDrag
+            ? 'grab'
+            : 'default'
+          : hit?.kind === 'connection'
+            ? 'pointer'
+            : hit?.kind === 'group'
+              ? hit.mode === 'resize'
+                ? 'nwse-resize'
+                : 'move'
+              : this.options.allowPan
+                ? 'grab'
+                : 'default';
+    this.svg.style('cursor', cursor);
   }
 
   private handleZoom(transform: ZoomTransform): void {
     this.transform = transform;
     this.scene.attr('transform', transform.toString());
+    this.scheduleCanvasDraw();
+    this.updateRenderWindow();
 
     if (this.applyingViewport) {
       return;
     }
 
     const viewport = this.transformToViewport(transform);
-    this.selection = { ...this.selection };
     this.options.onViewportChange?.(viewport);
 
     if (this.options.syncViewport) {
@@ -1045,7 +2680,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     if (!this.options.interactive || !this.options.allowPan) {
       return;
     }
-    if (!this.dragState && !this.draft) {
+    if (!this.dragState && !this.groupDragState && !this.waypointDragState && !this.draft && !this.marqueeState) {
       this.svg.style('cursor', 'grab');
     }
   }
@@ -1091,26 +2726,34 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       return;
     }
     event.stopPropagation();
-    this.selection = { nodeId: node.id, connectionId: null };
+    if (!this.selectEntity('nodeIds', node.id, this.isToggleEvent(event))) {
+      return;
+    }
     this.options.onNodeSelect?.(node);
-    this.syncSelection();
 
-    if (!this.options.allowNodeDrag) {
+    const target = event.target as Element | null;
+    if (!this.options.allowNodeDrag || target?.closest?.('[data-no-drag]')) {
       return;
     }
 
     const element = event.currentTarget as SVGGraphicsElement | null;
     element?.setPointerCapture?.(event.pointerId);
 
+    const nodePositions = new Map<string, Point>();
+    for (const candidate of this.state.nodes) {
+      if (this.selection.nodeIds.has(candidate.id)) {
+        nodePositions.set(candidate.id, { ...candidate.position });
+      }
+    }
     this.dragState = {
       nodeId: node.id,
       pointerId: event.pointerId,
       originX: event.clientX,
       originY: event.clientY,
-      startX: node.position.x,
-      startY: node.position.y,
+      nodePositions,
       element,
     };
+    this.options.history?.beginGroup('node:move');
 
     if (this.options.interactive) {
       this.svg.on('.zoom', null);
@@ -1122,80 +2765,229 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     window.addEventListener('pointercancel', this.pointerCancelHandler, { once: false });
   }
 
+  private handleGroupPointerDown(event: PointerEvent, group: GraphGroup, mode: GroupDragState['mode']): void {
+    if (!this.options.interactive || !this.options.allowGroupDrag) {
+      return;
+    }
+    event.stopPropagation();
+    if (!this.selectEntity('groupIds', group.id, mode === 'move' && this.isToggleEvent(event))) {
+      return;
+    }
+    const nodeLookup = new Map(this.state.nodes.map(node => [node.id, node]));
+    const bounds = this.getGroupBounds(group, nodeLookup);
+    if (!bounds) {
+      return;
+    }
+
+    const element = event.currentTarget as SVGGraphicsElement | null;
+    element?.setPointerCapture?.(event.pointerId);
+
+    const nodePositions = new Map<string, Point>();
+    for (const nodeId of group.nodeIds) {
+      const node = nodeLookup.get(nodeId);
+      if (node) {
+        nodePositions.set(nodeId, { ...node.position });
+      }
+    }
+    this.groupDragState = {
+      groupId: group.id,
+      mode,
+      pointerId: event.pointerId,
+      originX: event.clientX,
+      originY: event.clientY,
+      bounds: { position: { ...bounds.position }, size: { ...bounds.size } },
+      explicitBounds: !!group.bounds,
+      nodePositions,
+      element,
+    };
+    this.options.history?.beginGroup(mode === 'move' ? 'group:move' : 'group:resize');
+
+    this.svg.on('.zoom', null);
+    this.svg.style('cursor', mode === 'move' ? 'grabbing' : 'nwse-resize');
+
+    window.addEventListener('pointermove', this.pointerMoveHandler);
+    window.addEventListener('pointerup', this.pointerUpHandler, { once: false });
+    window.addEventListener('pointercancel', this.pointerCancelHandler, { once: false });
+  }
+
+  private dragGroup(drag: GroupDragState, deltaX: number, deltaY: number): void {
+    const { position, size } = drag.bounds;
+    if (drag.mode === 'resize') {
+      const nextSize = {
+        width: Math.max(GROUP_MIN_SIZE.width, size.width + deltaX),
+        height: Math.max(GROUP_MIN_SIZE.height, size.height + deltaY),
+      };
+      this.graph.updateGroup(drag.groupId, { bounds: { position, size: nextSize } });
+      return;
+    }
+
+    let nextX = position.x + deltaX;
+    let nextY = position.y + deltaY;
+    if (this.options.snapToGrid) {
+      const gridSize = Math.max(4, this.options.gridSize);
+      nextX = Math.round(nextX / gridSize) * gridSize;
+      nextY = Math.round(nextY / gridSize) * gridSize;
+    }
+    const offsetX = nextX - position.x;
+    const offsetY = nextY - position.y;
+    this.graph.batch(graph => {
+      for (const [nodeId, start] of drag.nodePositions) {
+        graph.moveNode(nodeId, { x: start.x + offsetX, y: start.y + offsetY });
+      }
+      if (drag.explicitBounds) {
+        graph.updateGroup(drag.groupId, { bounds: { position: { x: nextX, y: nextY }, size } });
+      }
+    });
+  }
+
+  /** Assigns a dropped node to the topmost group under its centre, or removes it from its group. */
+  private updateNodeGroupMembership(nodeId: string): void {
+    const node = this.state.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return;
+    }
+    const nodeLookup = new Map(this.state.nodes.map(candidate => [candidate.id, candidate]));
+    const size = this.getNodeSize(node);
+    const centerX = node.position.x + size.width / 2;
+    const centerY = node.position.y + size.height / 2;
+    const currentGroupId = node.groupId ?? null;
+    const currentGroup = currentGroupId ? this.state.groups.find(group => group.id === currentGroupId) : undefined;
+
+    // A fitted group whose only member is this node has no frame of its own to leave.
+    let targetGroupId = currentGroup && !this.getGroupBounds(currentGroup, nodeLookup, nodeId) ? currentGroupId : null;
+    for (let index = this.state.groups.length - 1; index >= 0; index -= 1) {
+      const group = this.state.groups[index];
+      const bounds = this.getGroupBounds(group, nodeLookup, nodeId);
+      if (
+        bounds &&
+        centerX >= bounds.position.x &&
+        centerX <= bounds.position.x + bounds.size.width &&
+        centerY >= bounds.position.y &&
+        centerY <= bounds.position.y + bounds.size.height
+      ) {
+        targetGroupId = group.id;
+        break;
+      }
+    }
+
+    if (targetGroupId !== currentGroupId) {
+      try {
+        this.graph.assignNodeToGroup(nodeId, targetGroupId);
+      } catch (error) {
+        this.options.onConnectionError?.(error);
+      }
+    }
+  }
+
   private handleNodeDoubleClick(event: PointerEvent, node: GraphNode<TNodeData>): void {
     event.stopPropagation();
     this.focusNode(node.id);
   }
 
   private handlePointerMove(event: PointerEvent): void {
+    if (this.groupDragState && event.pointerId === this.groupDragState.pointerId) {
+      const scale = this.transform.k || 1;
+      this.dragGroup(
+        this.groupDragState,
+        (event.clientX - this.groupDragState.originX) / scale,
+        (event.clientY - this.groupDragState.originY) / scale,
+      );
+      return;
+    }
+
     if (this.dragState && event.pointerId === this.dragState.pointerId) {
+      const { nodeId, nodePositions } = this.dragState;
       const scale = this.transform.k || 1;
-      const deltaX = (event.clientX - this.dragState.originX) / scale;
-      const deltaY = (event.clientY - this.dragState.originY) / scale;
-      let nextX = this.dragState.startX + deltaX;
-      let nextY = this.dragState.startY + deltaY;
+      const start = nodePositions.get(nodeId)!;
+      let nextX = start.x + (event.clientX - this.dragState.originX) / scale;
+      let nextY = start.y + (event.clientY - this.dragState.originY) / scale;
       if (this.options.snapToGrid) {
         const size = Math.max(4, this.options.gridSize);
         nextX = Math.round(nextX / size) * size;
         nextY = Math.round(nextY / size) * size;
       }
-      this.graph.moveNode(this.dragState.nodeId, { x: nextX, y: nextY });
+      if (this.options.alignmentGuides) {
+        const snap = this.getDragAlignmentSnap(nodePositions, { x: nextX - start.x, y: nextY - start.y });
+        nextX += snap.offset.x;
+        nextY += snap.offset.y;
+        this.renderAlignmentGuides(snap);
+      }
+      if (nodePositions.size === 1) {
+        this.graph.moveNode(nodeId, { x: nextX, y: nextY });
+        return;
+      }
+      const offsetX = nextX - start.x;
+      const offsetY = nextY - start.y;
+      this.graph.batch(graph => {
+        for (const [id, position] of nodePositions) {
+          graph.moveNode(id, { x: position.x + offsetX, y: position.y + offsetY });
+        }
+      });
+      return;
+    }
+
+    if (this.waypointDragState && event.pointerId === this.waypointDragState.pointerId) {
+      this.dragWaypoint(this.waypointDragState, this.pointerToWorld(event.clientX, event.clientY));
+      return;
+    }
+
+    if (this.marqueeState && event.pointerId === this.marqueeState.pointerId) {
+      this.marqueeState.current = this.pointerToWorld(event.clientX, event.clientY);
+      this.updateMarqueeRect();
       return;
     }
 
     if (this.draft && event.pointerId === this.draft.pointerId) {
       this.draft.current = this.pointerToWorld(event.clientX, event.clientY);
+      this.draft.candidate = this.findDraftCandidate(this.draft);
       this.updateDraftPath();
     }
   }
 
   private handlePointerUp(event: PointerEvent): void {
     if (this.dragState && event.pointerId === this.dragState.pointerId) {
+      const { nodePositions } = this.dragState;
       this.dragState.element?.releasePointerCapture?.(event.pointerId);
       this.dragState = null;
+      this.renderAlignmentGuides(null);
+      if (this.options.allowGroupDrag) {
+        nodePositions.forEach((_position, nodeId) => this.updateNodeGroupMembership(nodeId));
+      }
+      this.options.history?.endGroup();
+    }
+
+    if (this.marqueeState && event.pointerId === this.marqueeState.pointerId) {
+      const marquee = this.marqueeState;
+      this.marqueeState = null;
+      this.updateMarqueeRect();
+      if (event.type !== 'pointercancel') {
+        this.replaceSelection(this.getMarqueeSelection(marquee));
+      }
+    }
+
+    if (this.groupDragState && event.pointerId === this.groupDragState.pointerId) {
+      this.groupDragState.element?.releasePointerCapture?.(event.pointerId);
+      this.groupDragState = null;
+      this.options.history?.endGroup();
+    }
+
+    if (this.waypointDragState && event.pointerId === this.waypointDragState.pointerId) {
+      this.waypointDragState.element?.releasePointerCapture?.(event.pointerId);
+      this.waypointDragState = null;
+      this.options.history?.endGroup();
     }
 
     if (this.draft && event.pointerId === this.draft.pointerId) {
       const draft = this.draft;
       this.draft = null;
-      if (draft.target) {
-        let allowConnection = true;
-        const validator = this.options.validateConnection;
-        if (validator) {
-          try {
-            const result = validator(draft.source, draft.target, this.graph);
-            if (result === false) {
-              allowConnection = false;
-              this.options.onConnectionError?.(new Error('Connection is not allowed.'));
-            } else if (typeof result === 'string') {
-              allowConnection = false;
-              this.options.onConnectionError?.(new Error(result));
-            }
-          } catch (error) {
-            allowConnection = false;
-            this.options.onConnectionError?.(error);
-          }
-        }
-
-        if (allowConnection) {
-          try {
-            const connection = this.graph.addConnection({
-              source: draft.source,
-              target: draft.target,
-            });
-            this.selection = { nodeId: null, connectionId: connection.id };
-            this.options.onConnectionCreate?.(connection);
-            this.options.onConnectionSelect?.(connection);
-          } catch (error) {
-            this.options.onConnectionError?.(error);
-          }
-        }
+      if (draft.candidate) {
+        this.commitDraft(draft, draft.candidate);
       }
       this.updateDraftPath();
       this.syncSelection();
     }
 
-    if (!this.dragState && !this.draft) {
+    if (!this.dragState && !this.groupDragState && !this.waypointDragState && !this.draft && !this.marqueeState) {
       if (this.options.interactive) {
         this.svg.style('cursor', this.options.allowPan ? 'grab' : 'default');
         this.svg.call(this.zoomBehavior);
@@ -1205,6 +2997,115 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     }
   }
 
+  /** Snaps the bounding box of the dragged nodes, moved by `offset`, to the nodes that stay put. */
+  private getDragAlignmentSnap(nodePositions: Map<string, Point>, offset: Point): AlignmentSnap {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    const others: { x: number; y: number; width: number; height: number }[] = [];
+    for (const node of this.state.nodes) {
+      const size = this.getNodeSize(node);
+      const start = nodePositions.get(node.id);
+      if (!start) {
+        others.push({ ...node.position, ...size });
+        continue;
+      }
+      minX = Math.min(minX, start.x + offset.x);
+      minY = Math.min(minY, start.y + offset.y);
+      maxX = Math.max(maxX, start.x + offset.x + size.width);
+      maxY = Math.max(maxY, start.y + offset.y + size.height);
+    }
+    const moving = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    return getAlignmentSnap(moving, others, this.options.alignmentSnapThreshold / (this.transform.k || 1));
+  }
+
+  private renderAlignmentGuides(snap: AlignmentSnap | null): void {
+    const color = this.options.theme.connectionSelected;
+    const strokeWidth = 1 / (this.transform.k || 1);
+    const guides = this.guideLayer
+      .selectAll<SVGLineElement, AlignmentSnap['guides'][number]>('line.fg-guide')
+      .data(snap?.guides ?? []);
+    guides.exit().remove();
+    guides
+      .enter()
+      .append('line')
+      .attr('class', 'fg-guide')
+      .merge(guides)
+      .attr('x1', guide => (guide.axis === 'x' ? guide.position : guide.start))
+      .attr('y1', guide => (guide.axis === 'x' ? guide.start : guide.position))
+      .attr('x2', guide => (guide.axis === 'x' ? guide.position : guide.end))
+      .attr('y2', guide => (guide.axis === 'x' ? guide.end : guide.position))
+      .attr('stroke', color)
+      .attr('stroke-width', strokeWidth);
+
+    const gaps = (snap?.spacing ?? []).flatMap(hint => hint.gaps.map(gap => ({ ...gap, axis: hint.axis })));
+    const hints = this.guideLayer
+      .selectAll<SVGLineElement, (typeof gaps)[number]>('line.fg-spacing-hint')
+      .data(gaps);
+    hints.exit().remove();
+    hints
+      .enter()
+      .append('line')
+      .attr('class', 'fg-spacing-hint')
+      .merge(hints)
+      .attr('x1', gap => (gap.axis === 'x' ? gap.from : gap.cross))
+      .attr('y1', gap => (gap.axis === 'x' ? gap.cross : gap.from))
+      .attr('x2', gap => (gap.axis === 'x' ? gap.to : gap.cross))
+      .attr('y2', gap => (gap.axis === 'x' ? gap.cross : gap.to))
+      .attr('stroke', this.options.theme.draft)
+      .attr('stroke-width', strokeWidth * 1.5)
+      .attr('stroke-dasharray', `${4 * strokeWidth} ${3 * strokeWidth}`);
+  }
+
+  /**
+   * Creates the drafted connection, or moves the dragged end of the reconnected one through
+   * `updateConnection` so the graph's port checks apply and the connection keeps everything else.
+   */
+  private commitDraft(draft: ConnectionDraft, candidate: PortAddress): void {
+    const source = draft.end === 'source' ? candidate : draft.anchor;
+    const target = draft.end === 'source' ? draft.anchor : candidate;
+    const existing = draft.connectionId ? this.graph.getConnection(draft.connectionId) : undefined;
+    if (draft.connectionId && !existing) {
+      return;
+    }
+    if (existing && isSamePort(existing.source, source) && isSamePort(existing.target, target)) {
+      return;
+    }
+
+    const validator = this.options.validateConnection;
+    if (validator) {
+      try {
+        const result = validator(source, target, this.graph);
+        if (result === false) {
+          this.options.onConnectionError?.(new Error('Connection is not allowed.'));
+          return;
+        }
+        if (typeof result === 'string') {
+          this.options.onConnectionError?.(new Error(result));
+          return;
+        }
+      } catch (error) {
+        this.options.onConnectionError?.(error);
+        return;
+      }
+    }
+
+    try {
+      if (existing) {
+        const connection = this.graph.updateConnection(existing.id, { source, target });
+        this.options.onConnectionSelect?.(connection);
+        return;
+      }
+      const connection = this.graph.addConnection({ source, target });
+      this.replaceSelection(createSelectionSet({ connectionIds: [connection.id] }));
+      this.options.onConnectionCreate?.(connection);
+      this.options.onConnectionSelect?.(connection);
+    } catch (error) {
+      this.options.onConnectionError?.(error);
+    }
+  }
+
   private detachGlobalListeners(): void {
     window.removeEventListener('pointermove', this.pointerMoveHandler);
     window.removeEventListener('pointerup', this.pointerUpHandler);
@@ -1213,62 +3114,283 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
 
   private handleConnectionPointerDown(event: PointerEvent, connection: GraphConnection): void {
     event.stopPropagation();
-    this.selection = { nodeId: null, connectionId: connection.id };
-    this.options.onConnectionSelect?.(connection);
-    this.syncSelection();
+    if (this.selectEntity('connectionIds', connection.id, this.isToggleEvent(event))) {
+      this.options.onConnectionSelect?.(connection);
+    }
+  }
+
+  private handleWaypointPointerDown(event: PointerEvent, handle: WaypointHandle): void {
+    const connection = this.graph.getConnection(handle.connectionId);
+    if (!connection || event.button !== 0) {
+      return;
+    }
+    event.stopPropagation();
+    event.preventDefault();
+
+    const element = event.currentTarget as SVGGraphicsElement | null;
+    element?.setPointerCapture?.(event.pointerId);
+    this.waypointDragState = {
+      connectionId: connection.id,
+      pointerId: event.pointerId,
+      path: (connection.path ?? []).map(point => ({ ...point })),
+      index: handle.index,
+      insert: handle.insert,
+      element,
+    };
+    this.options.history?.beginGroup('connection:update');
+
+    this.svg.on('.zoom', null);
+    this.svg.style('cursor', 'move');
+
+    window.addEventListener('pointermove', this.pointerMoveHandler);
+    window.addEventListener('pointerup', this.pointerUpHandler, { once: false });
+    window.addEventListener('pointercancel', this.pointerCancelHandler, { once: false });
+  }
+
+  private dragWaypoint(drag: WaypointDragState, point: Point): void {
+    let next = point;
+    if (this.options.snapToGrid) {
+      const size = Math.max(4, this.options.gridSize);
+      next = { x: Math.round(point.x / size) * size, y: Math.round(point.y / size) * size };
+    }
+    const path = [...drag.path];
+    path.splice(drag.index, drag.insert ? 0 : 1, next);
+    try {
+      this.graph.updateConnection(drag.connectionId, { path });
+    } catch (error) {
+      this.options.onConnectionError?.(error);
+    }
+  }
+
+  private handleWaypointDoubleClick(event: MouseEvent, handle: WaypointHandle): void {
+    event.stopPropagation();
+    event.preventDefault();
+    const connection = this.graph.getConnection(handle.connectionId);
+    if (handle.insert || !connection?.path) {
+      return;
+    }
+    try {
+      this.graph.updateConnection(connection.id, {
+        path: connection.path.filter((_point, index) => index !== handle.index),
+      });
+    } catch (error) {
+      this.options.onConnectionError?.(error);
+    }
+  }
+
+  private handleCanvasPointerDown(event: PointerEvent): void {
+    if (this.canvas && this.dispatchCanvasPointerDown(event)) {
+      return;
+    }
+    if (!this.isMarqueeEvent(event) || this.dragState || this.groupDragState || this.draft) {
+      return;
+    }
+    event.preventDefault();
+    const origin = this.pointerToWorld(event.clientX, event.clientY);
+    this.marqueeState = { pointerId: event.pointerId, origin, current: origin };
+    this.updateMarqueeRect();
+    this.svg.style('cursor', 'crosshair');
+
+    window.addEventListener('pointermove', this.pointerMoveHandler);
+    window.addEventListener('pointerup', this.pointerUpHandler, { once: false });
+    window.addEventListener('pointercancel', this.pointerCancelHandler, { once: false });
+  }
+
+  /** A plain click on the empty canvas clears the selection; panning suppresses the click. */
+  private handleCanvasClick(event: MouseEvent): void {
+    if (!this.options.interactive || this.isEntityEvent(event) || this.isToggleEvent(event)) {
+      return;
+    }
+    if (this.options.allowMultiSelection && isModifierPressed(event, this.options.marqueeModifier)) {
+      return;
+    }
+    this.clearSelection();
+  }
+
+  private getMarqueeBounds(marquee: MarqueeState): GroupBounds {
+    return {
+      position: {
+        x: Math.min(marquee.origin.x, marquee.current.x),
+        y: Math.min(marquee.origin.y, marquee.current.y),
+      },
+      size: {
+        width: Math.abs(marquee.current.x - marquee.origin.x),
+        height: Math.abs(marquee.current.y - marquee.origin.y),
+      },
+    };
+  }
+
+  private updateMarqueeRect(): void {
+    if (!this.marqueeState) {
+      this.marqueeRect.style('visibility', 'hidden');
+      return;
+    }
+    const { position, size } = this.getMarqueeBounds(this.marqueeState);
+    this.marqueeRect
+      .attr('x', position.x)
+      .attr('y', position.y)
+      .attr('width', size.width)
+      .attr('height', size.height)
+      .attr('fill', this.options.theme.connectionSelected)
+      .attr('stroke', this.options.theme.connectionSelected)
+      .style('visibility', 'visible');
+  }
+
+  /**
+   * Nodes and group frames fully inside the marquee are selected, together with the connections
+   * whose both ends are selected nodes.
+   */
+  private getMarqueeSelection(marquee: MarqueeState): FlowgraphRendererSelectionSet {
+    const { position, size } = this.getMarqueeBounds(marquee);
+    const contains = (bounds: GroupBounds) =>
+      bounds.position.x >= position.x &&
+      bounds.position.y >= position.y &&
+      bounds.position.x + bounds.size.width <= position.x + size.width &&
+      bounds.position.y + bounds.size.height <= position.y + size.height;
+
+    const next = createSelectionSet();
+    for (const nodeId of this.nodeIndex.search({ ...position, ...size })) {
+      const rect = this.nodeIndex.get(nodeId);
+      if (rect && contains({ position: rect, size: rect })) {
+        next.nodeIds.add(nodeId);
+      }
+    }
+    for (const connection of this.state.connections) {
+      if (next.nodeIds.has(connection.source.nodeId) && next.nodeIds.has(connection.target.nodeId)) {
+        next.connectionIds.add(connection.id);
+      }
+    }
+    const nodeLookup = new Map(this.state.nodes.map(node => [node.id, node]));
+    for (const group of this.state.groups) {
+      const bounds = this.getGroupBounds(group, nodeLookup);
+      if (bounds && contains(bounds)) {
+        next.groupIds.add(group.id);
+      }
+    }
+    return next;
+  }
+
+  /** Removes every selected group, connection and node as a single batch. */
+  private removeSelection(): void {
+    const { nodeIds, connectionIds, groupIds } = this.selection;
+    try {
+      this.graph.batch(graph => {
+        for (const group of this.state.groups) {
+          if (groupIds.has(group.id)) {
+            graph.removeGroup(group.id);
+          }
+        }
+        connectionIds.forEach(connectionId => {
+          if (graph.getConnection(connectionId)) {
+            graph.removeConnection(connectionId);
+          }
+        });
+        nodeIds.forEach(nodeId => {
+          if (graph.getNode(nodeId)) {
+            graph.removeNode(nodeId);
+          }
+        });
+      });
+    } catch (error) {
+      this.options.onConnectionError?.(error);
+    }
+    this.clearSelection();
   }
 
   private handleConnectionDoubleClick(event: PointerEvent, connection: GraphConnection): void {
     event.stopPropagation();
     event.preventDefault();
+    const modifier = this.options.connectionDeleteModifier;
+    if (!this.options.interactive || modifier === 'none' || !isModifierPressed(event, modifier)) {
+      return;
+    }
     try {
       this.graph.removeConnection(connection.id);
-      if (this.selection.connectionId === connection.id) {
-        this.selection = { nodeId: null, connectionId: null };
-        this.syncSelection();
-      }
     } catch (error) {
       this.options.onConnectionError?.(error);
     }
   }
 
   private syncSelection(): void {
-    const nodeId = this.selection.nodeId ?? null;
-    const connectionId = this.selection.connectionId ?? null;
+    const { nodeIds, connectionIds, groupIds } = this.selection;
+    const { theme } = this.options;
 
-    this.nodeLayer
+    const nodes = this.nodeLayer
       .selectAll<SVGGElement, GraphNode<TNodeData>>('g.fg-node')
-      .classed('is-selected', node => node.id === nodeId);
+      .classed('is-selected', node => nodeIds.has(node.id))
+      .each(node => {
+        const body = this.customNodeBodies.get(node.id);
+        if (body && body.selected !== nodeIds.has(node.id)) {
+          body.selected = nodeIds.has(node.id);
+          this.updateNodeBody(body, this.createNodeRenderContext(node));
+        }
+      });
+    nodes
+      .select<SVGRectElement>('rect.fg-node-body')
+      .attr('stroke', node => (nodeIds.has(node.id) ? theme.connectionSelected : theme.nodeStroke))
+      .attr('stroke-width', node => (nodeIds.has(node.id) ? 2.5 : 1.5));
+
+    this.groupLayer
+      .selectAll<SVGGElement, GraphGroup>('g.fg-group')
+      .classed('is-selected', group => groupIds.has(group.id))
+      .select<SVGRectElement>('rect.fg-group-frame')
+      .attr('stroke', group => (groupIds.has(group.id) ? theme.connectionSelected : theme.nodeStroke));
 
     this.connectionLayer
       .selectAll<SVGPathElement, GraphConnection>('path.fg-connection--entity')
-      .classed('is-selected', connection => connection.id === connectionId)
-      .attr('stroke-width', connection => (connection.id === connectionId ? 3 : 2))
+      .classed('is-selected', connection => connectionIds.has(connection.id))
+      .attr('stroke-width', connection => (connectionIds.has(connection.id) ? 3 : 2))
       .attr('stroke', connection =>
-        connection.id === connectionId
-          ? this.options.theme.connectionSelected ?? connection.color ?? this.options.theme.connection
-          : connection.color ?? this.options.theme.connection,
+        connectionIds.has(connection.id)
+          ? theme.connectionSelected ?? connection.color ?? theme.connection
+          : connection.color ?? theme.connection,
       )
-      .attr('opacity', connection => (connection.id === connectionId ? 1 : 0.92));
+      .attr('opacity', connection => (connectionIds.has(connection.id) ? 1 : 0.92));
+    this.renderConnectionHandles();
+    this.scheduleCanvasDraw();
   }
 
   private handlePortPointerDown(event: PointerEvent, node: GraphNode<TNodeData>, port: GraphPort): void {
-    if (!this.options.interactive || port.direction !== 'output') {
+    if (!this.options.interactive) {
       return;
     }
     event.stopPropagation();
     event.preventDefault();
 
-    this.selection = { nodeId: node.id, connectionId: null };
+    this.selectEntity('nodeIds', node.id, false);
     this.options.onNodeSelect?.(node);
-    this.syncSelection();
 
+    // Dragging from an input draws the connection backwards: the pointer end becomes its source.
+    this.startDraft(event, {
+      anchor: { nodeId: node.id, portId: port.id },
+      end: port.direction === 'output' ? 'target' : 'source',
+    });
+  }
+
+  /** Drags one end of a selected connection; dropping it on another port reconnects it. */
+  private handleEndpointPointerDown(event: PointerEvent, handle: ConnectionEndpointHandle): void {
+    const connection = this.graph.getConnection(handle.connectionId);
+    if (!this.options.interactive || !connection || event.button !== 0) {
+      return;
+    }
+    event.stopPropagation();
+    event.preventDefault();
+    this.startDraft(event, {
+      anchor: handle.end === 'source' ? connection.target : connection.source,
+      end: handle.end,
+      connectionId: connection.id,
+    });
+  }
+
+  private startDraft(event: PointerEvent, draft: Pick<ConnectionDraft, 'anchor' | 'end' | 'connectionId'>): void {
     this.dragState = null;
     this.draft = {
+      ...draft,
+      anchor: { ...draft.anchor },
       pointerId: event.pointerId,
-      source: { nodeId: node.id, portId: port.id },
       current: this.pointerToWorld(event.clientX, event.clientY),
-      target: null,
+      candidate: null,
+      compatible: this.getCompatiblePorts(draft),
     };
     this.updateDraftPath();
 
@@ -1277,23 +3399,105 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     window.addEventListener('pointercancel', this.pointerCancelHandler, { once: false });
   }
 
+  private getDraftPortDirection(draft: ConnectionDraft): GraphPort['direction'] {
+    return draft.end === 'target' ? 'input' : 'output';
+  }
+
+  /** Ports the graph would accept at the dragged end, checked with `FlowGraph.canConnect`. */
+  private getCompatiblePorts(draft: Pick<ConnectionDraft, 'anchor' | 'end' | 'connectionId'>): Map<string, PortAddress> {
+    const direction = draft.end === 'target' ? 'input' : 'output';
+    const compatible = new Map<string, PortAddress>();
+    for (const node of this.state.nodes) {
+      for (const port of node.ports) {
+        const address = { nodeId: node.id, portId: port.id };
+        if (port.direction !== direction || isSamePort(address, draft.anchor)) {
+          continue;
+        }
+        const connection =
+          draft.end === 'target' ? { source: draft.anchor, target: address } : { source: address, target: draft.anchor };
+        if (this.graph.canConnect(connection, draft.connectionId)) {
+          compatible.set(portKey(address), address);
+        }
+      }
+    }
+    return compatible;
+  }
+
+  /**
+   * The compatible port nearest to the pointer within `connectionSnapRadius`, or else the first free
+   * compatible port of the node under the pointer.
+   */
+  private findDraftCandidate(draft: ConnectionDraft): PortAddress | null {
+    const radius = this.options.connectionSnapRadius / (this.transform.k || 1);
+    const { x, y } = draft.current;
+    // Port anchors sit on their node's edges, so only nodes within the radius can hold a candidate.
+    const nearby = this.findNodesIn({ x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 });
+    let nearest: PortAddress | null = null;
+    let nearestDistance = radius;
+    if (radius > 0) {
+      for (const node of nearby) {
+        for (const port of node.ports) {
+          const address = { nodeId: node.id, portId: port.id };
+          if (!draft.compatible.has(portKey(address))) {
+            continue;
+          }
+          const anchor = this.getPortAnchor(node, port);
+          const distance = Math.hypot(anchor.x - x, anchor.y - y);
+          if (distance <= nearestDistance) {
+            nearest = address;
+            nearestDistance = distance;
+          }
+        }
+      }
+    }
+    if (nearest) {
+      return nearest;
+    }
+
+    const node = nearby.reverse().find(candidate => {
+      const size = this.getNodeSize(candidate);
+      return (
+        x >= candidate.position.x &&
+        x <= candidate.position.x + size.width &&
+        y >= candidate.position.y &&
+        y <= candidate.position.y + size.height
+      );
+    });
+    if (!node) {
+      return null;
+    }
+    const used = new Set(
+      this.state.connections
+        .filter(connection => connection.id !== draft.connectionId)
+        .flatMap(connection => [portKey(connection.source), portKey(connection.target)]),
+    );
+    const port = node.ports.find(candidate => {
+      const key = portKey({ nodeId: node.id, portId: candidate.id });
+      return draft.compatible.has(key) && !used.has(key);
+    });
+    return port ? { nodeId: node.id, portId: port.id } : null;
+  }
+
   private handlePortPointerEnter(event: PointerEvent, node: GraphNode<TNodeData>, port: GraphPort): void {
-    if (!this.draft || port.direction !== 'input' || event.pointerId !== this.draft.pointerId) {
+    const draft = this.draft;
+    if (!draft || port.direction !== this.getDraftPortDirection(draft) || event.pointerId !== draft.pointerId) {
       return;
     }
-    if (this.draft.source.nodeId === node.id && this.draft.source.portId === port.id) {
+    const address = { nodeId: node.id, portId: port.id };
+    if (!draft.compatible.has(portKey(address))) {
       return;
     }
-    this.draft.target = { nodeId: node.id, portId: port.id };
+    draft.candidate = address;
     this.updateDraftPath();
   }
 
   private handlePortPointerLeave(event: PointerEvent, node: GraphNode<TNodeData>, port: GraphPort): void {
-    if (!this.draft || port.direction !== 'input' || event.pointerId !== this.draft.pointerId) {
+    const draft = this.draft;
+    if (!draft || port.direction !== this.getDraftPortDirection(draft) || event.pointerId !== draft.pointerId) {
       return;
     }
-    if (this.draft.target && this.draft.target.nodeId === node.id && this.draft.target.portId === port.id) {
-      this.draft.target = null;
+    if (draft.candidate && isSamePort(draft.candidate, { nodeId: node.id, portId: port.id })) {
+      draft.candidate = null;
       this.updateDraftPath();
     }
   }
@@ -1309,51 +3513,45 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
 
   private updateDraftPath(): void {
     const draft = this.draft;
-    if (!draft) {
-      this.draftPath.style('visibility', 'hidden');
-      this.updateDraftIndicators();
-      return;
-    }
+    // A reconnected connection is hidden while its draft stands in for it.
+    this.connectionLayer
+      .selectAll<SVGPathElement, GraphConnection>('path.fg-connection--entity')
+      .classed('is-reconnecting', connection => connection.id === draft?.connectionId)
+      .style('visibility', connection => (connection.id === draft?.connectionId ? 'hidden' : 'visible'));
+    this.connectionHandleLayer.style('visibility', draft ? 'hidden' : 'visible');
 
-    const sourceNode = this.graph.getNode(draft.source.nodeId);
-    const sourcePort = sourceNode?.ports.find(port => port.id === draft.source.portId);
-    if (!sourceNode || !sourcePort) {
+    const anchorPoint = draft && this.getPortAddressAnchor(draft.anchor);
+    if (!draft || !anchorPoint) {
       this.draft = null;
       this.draftPath.style('visibility', 'hidden');
       this.updateDraftIndicators();
       return;
     }
 
-    const start = this.getPortAnchor(sourceNode, sourcePort);
-    let end: Point | null = null;
-
-    if (draft.target) {
-      const targetNode = this.graph.getNode(draft.target.nodeId);
-      const targetPort = targetNode?.ports.find(port => port.id === draft.target.portId);
-      if (targetNode && targetPort) {
-        end = this.getPortAnchor(targetNode, targetPort);
-      }
-    }
-
-    if (!end) {
-      end = draft.current;
-    }
+    const pointer = (draft.candidate && this.getPortAddressAnchor(draft.candidate)) ?? draft.current;
+    const start = draft.end === 'target' ? anchorPoint : pointer;
+    const end = draft.end === 'target' ? pointer : anchorPoint;
 
-    const deltaX = end.x - start.x;
-    const direction = deltaX >= 0 ? 1 : -1;
-    const control = Math.max(this.options.connectionMinControlDistance, Math.abs(deltaX) / 2);
-    const cp1x = start.x + control * direction;
-    const cp2x = end.x - control * direction;
-    const path = `M ${start.x} ${start.y} C ${cp1x} ${start.y} ${cp2x} ${end.y} ${end.x} ${end.y}`;
+    // The draft follows the pointer, so it skips obstacle routing and draws orthogonal as step.
+    const style = this.options.connectionStyle === 'orthogonal' ? 'step' : this.options.connectionStyle;
+    const path = getConnectionPathData(style, start, end, {
+      minControlDistance: this.options.connectionMinControlDistance,
+    });
 
     this.draftPath
       .style('visibility', 'visible')
-      .attr('stroke', draft.target ? this.options.theme.connection : this.options.theme.draft)
+      .attr('stroke', draft.candidate ? this.options.theme.connection : this.options.theme.draft)
       .attr('d', path);
 
     this.updateDraftIndicators();
   }
 
+  private getPortAddressAnchor(address: PortAddress): Point | null {
+    const node = this.graph.getNode(address.nodeId);
+    const port = node?.ports.find(candidate => candidate.id === address.portId);
+    return node && port ? this.getPortAnchor(node, port) : null;
+  }
+
   private updateDraftIndicators(): void {
     const draft = this.draft;
     const portSelection = this.nodeLayer.selectAll<SVGGElement, unknown>('g.fg-node-port');
@@ -1361,16 +3559,22 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       if (!draft) return false;
       const element = this as SVGGElement;
       return (
-        element.getAttribute('data-node-id') === draft.source.nodeId &&
-        element.getAttribute('data-port-id') === draft.source.portId
+        element.getAttribute('data-node-id') === draft.anchor.nodeId &&
+        element.getAttribute('data-port-id') === draft.anchor.portId
+      );
+    });
+    portSelection.classed('is-draft-compatible', function () {
+      const element = this as SVGGElement;
+      return !!draft?.compatible.has(
+        portKey({ nodeId: element.getAttribute('data-node-id') ?? '', portId: element.getAttribute('data-port-id') ?? '' }),
       );
     });
     portSelection.classed('is-draft-target', function () {
-      if (!draft || !draft.target) return false;
+      if (!draft || !draft.candidate) return false;
       const element = this as SVGGElement;
       return (
-        element.getAttribute('data-node-id') === draft.target.nodeId &&
-        element.getAttribute('data-port-id') === draft.target.portId
+        element.getAttribute('data-node-id') === draft.candidate.nodeId &&
+        element.getAttribute('data-port-id') === draft.candidate.portId
       );
     });
 
@@ -1382,14 +3586,21 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       }
       const nodeId = element.attr('data-node-id');
       const portId = element.attr('data-port-id');
-      if (draft && draft.source.nodeId === nodeId && draft.source.portId === portId) {
+      if (draft && draft.anchor.nodeId === nodeId && draft.anchor.portId === portId) {
         circle.attr('fill', this.options.theme.connectionSelected);
-      } else if (draft && draft.target && draft.target.nodeId === nodeId && draft.target.portId === portId) {
+      } else if (draft?.candidate && draft.candidate.nodeId === nodeId && draft.candidate.portId === portId) {
         circle.attr('fill', this.options.theme.connection);
       } else {
         circle.attr('fill', this.options.theme.portFill);
       }
+      // While drafting, compatible ports get a ring and every other port fades.
+      const compatible = !!draft && draft.compatible.has(portKey({ nodeId, portId }));
+      circle
+        .attr('stroke', compatible ? this.options.theme.connection : 'none')
+        .attr('stroke-width', compatible ? 3 : 0)
+        .attr('opacity', !draft || compatible || isSamePort(draft.anchor, { nodeId, portId }) ? 1 : 0.35);
     });
+    this.scheduleCanvasDraw();
   }
 
   private updateMiniMap(state: FlowGraphState<TNodeData>): void {
@@ -1424,8 +3635,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     let maxY = -Infinity;
 
     for (const node of state.nodes) {
-      const width = node.size?.width ?? this.options.nodeSize.width;
-      const height = node.size?.height ?? this.options.nodeSize.height;
+      const { width, height } = this.getNodeSize(node);
       minX = Math.min(minX, node.position.x);
       minY = Math.min(minY, node.position.y);
       maxX = Math.max(maxX, node.position.x + width);
@@ -1446,9 +3656,33 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
     const scaleY = (mapHeight - padding * 2) / boundsHeight;
     this.miniMapScale = Math.max(0.001, Math.min(scaleX, scaleY));
 
+    if (this.canvas) {
+      // A rect and a label per node would undo the point of the canvas backend for large graphs.
+      const scale = this.miniMapScale;
+      const data = state.nodes
+        .map(node => {
+          const { width, height } = this.getNodeSize(node);
+          const x = (node.position.x - minX) * scale + padding;
+          const y = (node.position.y - minY) * scale + padding;
+          return `M${x},${y}h${Math.max(2, width * scale)}v${Math.max(2, height * scale)}h${-Math.max(2, width * scale)}Z`;
+        })
+        .join('');
+      clearMiniMap();
+      this.miniMapNodesGroup
+        .append('path')
+        .attr('class', 'fg-minimap-nodes')
+        .attr('d', data)
+        .attr('fill', this.options.theme.nodeFill)
+        .attr('fill-opacity', 0.55)
+        .attr('stroke', this.options.theme.nodeStroke)
+        .attr('stroke-opacity', 0.7)
+        .attr('stroke-width', 1);
+      this.updateMiniMapViewport();
+      return;
+    }
+
     const nodesData: MiniMapNodeDatum[] = state.nodes.map(node => {
-      const width = node.size?.width ?? this.options.nodeSize.width;
-      const height = node.size?.height ?? this.options.nodeSize.height;
+      const { width, height } = this.getNodeSize(node);
       const x = (node.position.x - minX) * this.miniMapScale + padding;
       const y = (node.position.y - minY) * this.miniMapScale + padding;
       const scaledWidth = Math.max(2, width * this.miniMapScale);
@@ -1613,7 +3847,7 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
   }
 
   private handleKeydown(event: KeyboardEvent): void {
-    if (!this.options.interactive) {
+    if (!this.options.interactive || isEditableTarget(event.target)) {
       return;
     }
 
@@ -1626,6 +3860,18 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       }
       if (this.dragState) {
         this.dragState = null;
+        this.renderAlignmentGuides(null);
+        this.options.history?.endGroup();
+        changed = true;
+      }
+      if (this.groupDragState) {
+        this.groupDragState = null;
+        this.options.history?.endGroup();
+        changed = true;
+      }
+      if (this.marqueeState) {
+        this.marqueeState = null;
+        this.updateMarqueeRect();
         changed = true;
       }
       if (changed) {
@@ -1634,28 +3880,33 @@ export class FlowgraphRenderer<TNodeData extends Record<string, unknown> = Recor
       return;
     }
 
-    if (event.key === 'Delete' || event.key === 'Backspace') {
-      if (this.selection.connectionId) {
-        event.preventDefault();
-        try {
-          this.graph.removeConnection(this.selection.connectionId);
-        } catch (error) {
-          this.options.onConnectionError?.(error);
-        }
-        this.selection = { nodeId: null, connectionId: null };
-        this.syncSelection();
-        return;
+    const history = this.options.history;
+    if (history && this.hasFocus() && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        history.redo();
+      } else {
+        history.undo();
       }
+      return;
+    }
 
-      if (this.selection.nodeId) {
+    if (
+      this.options.allowMultiSelection &&
+      this.hasFocus() &&
+      (event.ctrlKey || event.metaKey) &&
+      event.key.toLowerCase() === 'a'
+    ) {
+      event.preventDefault();
+      this.selectAll();
+      return;
+    }
+
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      const { nodeIds, connectionIds, groupIds } = this.selection;
+      if (nodeIds.size > 0 || connectionIds.size > 0 || groupIds.size > 0) {
         event.preventDefault();
-        try {
-          this.graph.removeNode(this.selection.nodeId);
-        } catch (error) {
-          this.options.onConnectionError?.(error);
-        }
-        this.selection = { nodeId: null, connectionId: null };
-        this.syncSelection();
+        this.removeSelection();
       }
     }
   }
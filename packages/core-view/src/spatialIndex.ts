@@ -0,0 +1,145 @@
+import { rectsIntersect, type CanvasRect } from './canvasScene.js';
+
+const DEFAULT_CELL_SIZE = 512;
+
+/** Rects spanning more cells than this, such as long connections, are kept in one list instead. */
+const MAX_CELLS_PER_ENTRY = 64;
+
+interface SpatialEntry {
+  rect: CanvasRect;
+  /** Cell keys the rect is stored under; null for oversized rects. */
+  cells: string[] | null;
+}
+
+/**
+ * Uniform grid over rects keyed by id. A rect is stored in every cell it overlaps, so a search only
+ * visits the cells under the query instead of every entry.
+ */
+export class SpatialIndex {
+  private readonly cells = new Map<string, Set<string>>();
+  private readonly entries = new Map<string, SpatialEntry>();
+  private readonly oversized = new Set<string>();
+
+  constructor(private readonly cellSize = DEFAULT_CELL_SIZE) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(id: string): CanvasRect | undefined {
+    return this.entries.get(id)?.rect;
+  }
+
+  set(id: string, rect: CanvasRect): void {
+    const existing = this.entries.get(id)?.rect;
+    if (
+      existing &&
+      existing.x === rect.x &&
+      existing.y === rect.y &&
+      existing.width === rect.width &&
+      existing.height === rect.height
+    ) {
+      return;
+    }
+    this.delete(id);
+    const cells = this.getCellKeys(rect);
+    this.entries.set(id, { rect: { ...rect }, cells });
+    if (!cells) {
+      this.oversized.add(id);
+      return;
+    }
+    for (const key of cells) {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.cells.set(key, cell);
+      }
+      cell.add(id);
+    }
+  }
+
+  delete(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(id);
+    this.oversized.delete(id);
+    for (const key of entry.cells ?? []) {
+      const cell = this.cells.get(key);
+      cell?.delete(id);
+      if (cell?.size === 0) {
+        this.cells.delete(key);
+      }
+    }
+  }
+
+  /** Drops entries whose id is not in `ids`. */
+  retain(ids: Set<string>): void {
+    for (const id of [...this.entries.keys()]) {
+      if (!ids.has(id)) {
+        this.delete(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+    this.oversized.clear();
+  }
+
+  /** Ids of every rect that intersects `rect`, in no particular order. */
+  search(rect: CanvasRect): Set<string> {
+    const result = new Set<string>();
+    const test = (id: string) => {
+      const entry = this.entries.get(id);
+      if (entry && rectsIntersect(entry.rect, rect)) {
+        result.add(id);
+      }
+    };
+    const [minX, minY, maxX, maxY] = this.getCellRange(rect);
+    if ((maxX - minX + 1) * (maxY - minY + 1) > this.cells.size) {
+      // Cheaper to walk the occupied cells than every cell a large query covers.
+      this.entries.forEach((_entry, id) => test(id));
+      return result;
+    }
+    for (let x = minX; x <= maxX; x += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        this.cells.get(`${x}:${y}`)?.forEach(id => {
+          if (!result.has(id)) {
+            test(id);
+          }
+        });
+      }
+    }
+    this.oversized.forEach(test);
+    return result;
+  }
+
+  private getCellRange(rect: CanvasRect): [number, number, number, number] {
+    return [
+      Math.floor(rect.x / this.cellSize),
+      Math.floor(rect.y / this.cellSize),
+      Math.floor((rect.x + rect.width) / this.cellSize),
+      Math.floor((rect.y + rect.height) / this.cellSize),
+    ];
+  }
+
+  private getCellKeys(rect: CanvasRect): string[] | null {
+    const [minX, minY, maxX, maxY] = this.getCellRange(rect);
+    if (
+      !Number.isFinite(minX + minY + maxX + maxY) ||
+      (maxX - minX + 1) * (maxY - minY + 1) > MAX_CELLS_PER_ENTRY
+    ) {
+      return null;
+    }
+    const keys: string[] = [];
+    for (let x = minX; x <= maxX; x += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        keys.push(`${x}:${y}`);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraph, FlowGraphError, FlowGraphTypeRegistry, type GraphNode, type GraphPort } from '@flowtomic/flowgraph';
+import { FlowgraphExecutor, type FlowgraphExecutorEvent, type FlowgraphNodeHandler } from '../executor.js';
+
+const node = (id: string, templateId: string, ports: GraphPort[] = []): GraphNode => ({
+  id,
+  templateId,
+  label: id,
+  position: { x: 0, y: 0 },
+  ports: [{ id: 'in', direction: 'input' }, { id: 'out', direction: 'output' }, ...ports],
+});
+
+const connect = (graph: FlowGraph, source: string, target: string, sourcePort = 'out', targetPort = 'in') =>
+  graph.addConnection({
+    id: `${source}-${target}`,
+    source: { nodeId: source, portId: sourcePort },
+    target: { nodeId: target, portId: targetPort },
+  });
+
+// Passes its input through, or `node.data.value` when it has none.
+const pass: FlowgraphNodeHandler = ({ node: current, inputs }) => ({ out: inputs.in ?? current.data?.value });
+
+describe('FlowgraphExecutor', () => {
+  it('runs nodes in topological order and passes outputs to connected inputs', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('sum', 'add'));
+    graph.addNode({ ...node('a', 'value'), data: { value: 2 } });
+    graph.addNode(node('double', 'double'));
+    connect(graph, 'double', 'sum');
+    connect(graph, 'a', 'double');
+    const visited: string[] = [];
+    const executor = new FlowgraphExecutor(graph, {
+      handlers: {
+        value: context => {
+          visited.push(context.node.id);
+          return pass(context);
+        },
+        double: ({ node: current, inputs }) => {
+          visited.push(current.id);
+          return { out: (inputs.in as number) * 2 };
+        },
+        add: ({ node: current, inputs }) => {
+          visited.push(current.id);
+          return { out: (inputs.in as number) + 1 };
+        },
+      },
+    });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('success');
+    expect(visited).toEqual(['a', 'double', 'sum']);
+    expect(result.nodes.sum).toMatchObject({ status: 'success', inputs: { in: 4 }, outputs: { out: 5 } });
+  });
+
+  it('skips nodes downstream of a failure and keeps independent branches running', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('broken', 'fail'));
+    graph.addNode(node('after', 'pass'));
+    graph.addNode(node('last', 'pass'));
+    graph.addNode({ ...node('other', 'pass'), data: { value: 'ok' } });
+    connect(graph, 'broken', 'after');
+    connect(graph, 'after', 'last');
+    const executor = new FlowgraphExecutor(graph, {
+      handlers: {
+        fail: () => {
+          throw new Error('boom');
+        },
+        pass,
+      },
+    });
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('error');
+    expect(result.nodes.broken.status).toBe('error');
+    expect((result.nodes.broken.error as Error).message).toBe('boom');
+    expect(result.nodes.after.status).toBe('skipped');
+    expect(result.nodes.last.status).toBe('skipped');
+    expect(result.nodes.other).toMatchObject({ status: 'success', outputs: { out: 'ok' } });
+    expect(result.log.some(entry => entry.level === 'error' && entry.nodeId === 'broken')).toBe(true);
+  });
+
+  it('stops when the signal aborts, even if the running handler ignores it', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('slow', 'slow'));
+    graph.addNode(node('next', 'pass'));
+    connect(graph, 'slow', 'next');
+    const controller = new AbortController();
+    const executor = new FlowgraphExecutor(graph, {
+      handlers: {
+        slow: () => {
+          controller.abort();
+          return new Promise(() => {});
+        },
+        pass,
+      },
+    });
+
+    const result = await executor.run({ signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.nodes.slow.status).toBe('cancelled');
+    expect(result.nodes.next.status).toBe('pending');
+  });
+
+  it('does not start any node when the signal is already aborted', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('a', 'pass'));
+    const controller = new AbortController();
+    controller.abort();
+    const executor = new FlowgraphExecutor(graph, { handlers: { pass } });
+
+    const result = await executor.run({ signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.nodes.a.status).toBe('pending');
+  });
+
+  it('passes a scalar for one connection and an array in connection order for several', async () => {
+    const graph = new FlowGraph();
+    graph.addNode({ ...node('a', 'pass'), data: { value: 'a' } });
+    graph.addNode({ ...node('b', 'pass'), data: { value: 'b' } });
+    graph.addNode(node('single', 'collect'));
+    graph.addNode(node('many', 'collect'));
+    connect(graph, 'a', 'single');
+    connect(graph, 'b', 'many');
+    connect(graph, 'a', 'many');
+    const received: Record<string, unknown> = {};
+    const executor = new FlowgraphExecutor(graph, {
+      handlers: {
+        pass,
+        collect: ({ node: current, inputs }) => {
+          received[current.id] = inputs.in;
+        },
+      },
+    });
+
+    await executor.run();
+
+    expect(received).toEqual({ single: 'a', many: ['b', 'a'] });
+  });
+
+  it('merges run inputs with values received from connections', async () => {
+    const graph = new FlowGraph();
+    graph.addNode({ ...node('a', 'pass'), data: { value: 1 } });
+    graph.addNode(node('b', 'collect', [{ id: 'extra', direction: 'input' }]));
+    connect(graph, 'a', 'b');
+    let inputs: unknown;
+    const executor = new FlowgraphExecutor(graph, {
+      handlers: { pass, collect: context => void (inputs = context.inputs) },
+    });
+
+    await executor.run({ inputs: { b: { extra: 'given', in: 'overridden' } } });
+
+    expect(inputs).toEqual({ extra: 'given', in: 1 });
+  });
+
+  it('converts values crossing a coercion between port data types', async () => {
+    const types = new FlowGraphTypeRegistry({
+      types: { number: {}, string: {}, integer: { extends: 'number' } },
+      coercions: [{ from: 'number', to: 'string', convert: value => `#${String(value)}` }],
+    });
+    const graph = new FlowGraph({ types });
+    graph.addNode({
+      ...node('source', 'pass', [{ id: 'int', direction: 'output', dataType: 'integer' }]),
+      data: { value: 7 },
+    });
+    graph.addNode(node('text', 'collect', [{ id: 'text', direction: 'input', dataType: 'string' }]));
+    graph.addNode(node('number', 'collect', [{ id: 'number', direction: 'input', dataType: 'number' }]));
+    connect(graph, 'source', 'text', 'int', 'text');
+    connect(graph, 'source', 'number', 'int', 'number');
+    const received: Record<string, unknown> = {};
+    const handlers: Record<string, FlowgraphNodeHandler> = {
+      pass: ({ node: current }) => ({ int: current.data?.value }),
+      collect: ({ node: current, inputs }) => {
+        received[current.id] = inputs[current.id];
+      },
+    };
+
+    await new FlowgraphExecutor(graph, { handlers, types }).run();
+    expect(received).toEqual({ text: '#7', number: 7 });
+
+    await new FlowgraphExecutor(graph, { handlers }).run();
+    expect(received).toEqual({ text: 7, number: 7 });
+  });
+
+  it('fails nodes without a handler unless a fallback is given', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('a', 'unknown'));
+
+    const missing = await new FlowgraphExecutor(graph, { handlers: {} }).run();
+    expect(missing.nodes.a.status).toBe('error');
+
+    const fallback = await new FlowgraphExecutor(graph, {
+      handlers: {},
+      fallbackHandler: () => ({ out: 'fallback' }),
+    }).run();
+    expect(fallback.nodes.a).toMatchObject({ status: 'success', outputs: { out: 'fallback' } });
+  });
+
+  it('rejects graphs that contain a cycle', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('a', 'pass'));
+    graph.addNode(node('b', 'pass'));
+    connect(graph, 'a', 'b');
+    connect(graph, 'b', 'a');
+    const run = new FlowgraphExecutor(graph, { handlers: { pass } }).run();
+
+    await expect(run).rejects.toBeInstanceOf(FlowGraphError);
+    await expect(run).rejects.toMatchObject({ code: 'CYCLE_DETECTED' });
+  });
+
+  it('streams node states and log entries to subscribers', async () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('a', 'pass'));
+    let time = 0;
+    const executor = new FlowgraphExecutor(graph, { handlers: { pass }, now: () => (time += 10) });
+    const events: FlowgraphExecutorEvent[] = [];
+    const unsubscribe = executor.subscribe(event => events.push(event));
+
+    const result = await executor.run();
+    unsubscribe();
+    await executor.run();
+
+    const states = events.flatMap(event => (event.type === 'node' ? [event.state.status] : []));
+    expect(states).toEqual(['running', 'success']);
+    expect(events.filter(event => event.type === 'log')).toHaveLength(result.log.length);
+    expect(result.nodes.a.finishedAt! - result.nodes.a.startedAt!).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  FlowGraph,
+  FlowGraphError,
+  FlowGraphTypeRegistry,
+  GraphConnection,
+  GraphNode,
+  findCycles,
+  topologicalSort,
+} from '@flowtomic/flowgraph';
+
+export type FlowgraphNodeStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped' | 'cancelled';
+
+export type FlowgraphRunStatus = 'success' | 'error' | 'cancelled';
+
+export type FlowgraphPortValues = Record<string, unknown>;
+
+export interface FlowgraphNodeHandlerContext<TNodeData = Record<string, unknown>> {
+  node: GraphNode<TNodeData>;
+  /**
+   * Values received on input ports, keyed by port id. A port fed by several connections receives an
+   * array of values in connection order.
+   */
+  inputs: FlowgraphPortValues;
+  signal: AbortSignal;
+  log: (message: string, data?: unknown) => void;
+}
+
+/** Evaluates a node. The returned record maps output port ids to the values they emit. */
+export type FlowgraphNodeHandler<TNodeData = Record<string, unknown>> = (
+  context: FlowgraphNodeHandlerContext<TNodeData>,
+) => FlowgraphPortValues | void | Promise<FlowgraphPortValues | void>;
+
+export interface FlowgraphNodeRunState {
+  status: FlowgraphNodeStatus;
+  inputs?: FlowgraphPortValues;
+  outputs?: FlowgraphPortValues;
+  error?: unknown;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type FlowgraphRunLogLevel = 'info' | 'error';
+
+export interface FlowgraphRunLogEntry {
+  timestamp: number;
+  level: FlowgraphRunLogLevel;
+  message: string;
+  nodeId?: string;
+  data?: unknown;
+}
+
+export interface FlowgraphRunResult {
+  status: FlowgraphRunStatus;
+  nodes: Record<string, FlowgraphNodeRunState>;
+  log: FlowgraphRunLogEntry[];
+}
+
+export type FlowgraphExecutorEvent =
+  | { type: 'node'; nodeId: string; state: FlowgraphNodeRunState }
+  | { type: 'log'; entry: FlowgraphRunLogEntry };
+
+export type FlowgraphExecutorListener = (event: FlowgraphExecutorEvent) => void;
+
+export interface FlowgraphExecutorOptions<TNodeData = Record<string, unknown>> {
+  /** Handlers keyed by `GraphNode.templateId`. */
+  handlers: Record<string, FlowgraphNodeHandler<TNodeData>>;
+  /** Used when a node has no `templateId` or no handler is registered for it. */
+  fallbackHandler?: FlowgraphNodeHandler<TNodeData>;
+  /** When given, values crossing a coercion between port `dataType`s are converted with it. */
+  types?: FlowGraphTypeRegistry;
+  now?: () => number;
+}
+
+export interface FlowgraphRunOptions {
+  signal?: AbortSignal;
+  /** Extra input values keyed by node id and input port id, e.g. for nodes without incoming connections. */
+  inputs?: Record<string, FlowgraphPortValues>;
+}
+
+class RunCancelledError extends Error {
+  constructor() {
+    super('Run cancelled.');
+    this.name = 'RunCancelledError';
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Resolves with the handler result, or rejects as soon as the signal aborts even if the handler
+// ignores it.
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new RunCancelledError());
+      return;
+    }
+    const onAbort = () => reject(new RunCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+
+export class FlowgraphExecutor<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly listeners = new Set<FlowgraphExecutorListener>();
+  private readonly now: () => number;
+
+  constructor(
+    private readonly graph: FlowGraph<TNodeData>,
+    private readonly options: FlowgraphExecutorOptions<TNodeData>,
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  subscribe(listener: FlowgraphExecutorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Evaluates every node once in topological order. A failing node marks its downstream nodes as
+   * `skipped` while independent branches keep running. Aborting `signal` stops the run after the
+   * current handler settles or immediately if the handler ignores the signal.
+   */
+  async run(runOptions: FlowgraphRunOptions = {}): Promise<FlowgraphRunResult> {
+    const state = this.graph.getState();
+    const order = topologicalSort(state);
+    if (!order) {
+      const [cycle] = findCycles(state);
+      throw new FlowGraphError(
+        'CYCLE_DETECTED',
+        `Cannot execute a graph with a cycle (connections ${cycle.join(', ')}).`,
+      );
+    }
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    runOptions.signal?.addEventListener('abort', forwardAbort, { once: true });
+    if (runOptions.signal?.aborted) {
+      controller.abort();
+    }
+
+    const nodes = new Map(state.nodes.map(node => [node.id, node]));
+    const incoming = new Map<string, GraphConnection[]>();
+    state.connections.forEach(connection => {
+      const list = incoming.get(connection.target.nodeId) ?? [];
+      list.push(connection);
+      incoming.set(connection.target.nodeId, list);
+    });
+
+    const result: FlowgraphRunResult = { status: 'success', nodes: {}, log: [] };
+    order.forEach(nodeId => {
+      result.nodes[nodeId] = { status: 'pending' };
+    });
+
+    try {
+      for (const nodeId of order) {
+        if (controller.signal.aborted) {
+          result.status = 'cancelled';
+          this.log(result, 'info', 'Run cancelled.');
+          break;
+        }
+        const node = nodes.get(nodeId)!;
+        const sources = incoming.get(nodeId) ?? [];
+        const blocked = sources.find(connection => result.nodes[connection.source.nodeId].status !== 'success');
+        if (blocked) {
+          this.setNodeState(result, nodeId, { status: 'skipped' });
+          this.log(result, 'info', `Skipped: upstream node "${blocked.source.nodeId}" did not succeed.`, nodeId);
+          continue;
+        }
+        const inputs = this.collectInputs(nodes, node, sources, result, runOptions.inputs?.[nodeId]);
+        await this.runNode(node, inputs, controller.signal, result);
+        if (result.nodes[nodeId].status === 'cancelled') {
+          result.status = 'cancelled';
+          break;
+        }
+        if (result.nodes[nodeId].status === 'error') {
+          result.status = 'error';
+        }
+      }
+    } finally {
+      runOptions.signal?.removeEventListener('abort', forwardAbort);
+    }
+    return result;
+  }
+
+  private async runNode(
+    node: GraphNode<TNodeData>,
+    inputs: FlowgraphPortValues,
+    signal: AbortSignal,
+    result: FlowgraphRunResult,
+  ): Promise<void> {
+    const startedAt = this.now();
+    this.setNodeState(result, node.id, { status: 'running', inputs, startedAt });
+    this.log(result, 'info', 'Started.', node.id);
+
+    const handler = (node.templateId && this.options.handlers[node.templateId]) || this.options.fallbackHandler;
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for template "${node.templateId ?? '(none)'}".`);
+      }
+      const outputs = await raceAbort(
+        Promise.resolve().then(() =>
+          handler({
+            node,
+            inputs,
+            signal,
+            log: (message, data) => this.log(result, 'info', message, node.id, data),
+          }),
+        ),
+        signal,
+      );
+      this.setNodeState(result, node.id, {
+        status: 'success',
+        inputs,
+        outputs: outputs ?? {},
+        startedAt,
+        finishedAt: this.now(),
+      });
+      this.log(result, 'info', 'Succeeded.', node.id);
+    } catch (error) {
+      const cancelled = error instanceof RunCancelledError || signal.aborted;
+      this.setNodeState(result, node.id, {
+        status: cancelled ? 'cancelled' : 'error',
+        inputs,
+        error: cancelled ? undefined : error,
+        startedAt,
+        finishedAt: this.now(),
+      });
+      if (cancelled) {
+        this.log(result, 'info', 'Cancelled.', node.id);
+      } else {
+        this.log(result, 'error', `Failed: ${errorMessage(error)}`, node.id, error);
+      }
+    }
+  }
+
+  private collectInputs(
+    nodes: Map<string, GraphNode<TNodeData>>,
+    node: GraphNode<TNodeData>,
+    sources: GraphConnection[],
+    result: FlowgraphRunResult,
+    provided: FlowgraphPortValues = {},
+  ): FlowgraphPortValues {
+    const inputs: FlowgraphPortValues = { ...provided };
+    const received = new Map<string, unknown[]>();
+    sources.forEach(connection => {
+      const output = result.nodes[connection.source.nodeId].outputs?.[connection.source.portId];
+      const value = this.convert(nodes, connection, output);
+      const values = received.get(connection.target.portId) ?? [];
+      values.push(value);
+      received.set(connection.target.portId, values);
+    });
+    received.forEach((values, portId) => {
+      inputs[portId] = values.length === 1 ? values[0] : values;
+    });
+    return inputs;
+  }
+
+  private convert(nodes: Map<string, GraphNode<TNodeData>>, connection: GraphConnection, value: unknown): unknown {
+    const { types } = this.options;
+    if (!types) {
+      return value;
+    }
+    const dataTypeOf = (nodeId: string, portId: string) =>
+      nodes.get(nodeId)?.ports.find(port => port.id === portId)?.dataType;
+    const sourceType = dataTypeOf(connection.source.nodeId, connection.source.portId);
+    const targetType = dataTypeOf(connection.target.nodeId, connection.target.portId);
+    if (!sourceType || !targetType) {
+      return value;
+    }
+    const compatibility = types.getCompatibility(sourceType, targetType);
+    return compatibility?.kind === 'coercion' && compatibility.coercion.convert
+      ? compatibility.coercion.convert(value)
+      : value;
+  }
+
+  private setNodeState(result: FlowgraphRunResult, nodeId: string, state: FlowgraphNodeRunState): void {
+    result.nodes[nodeId] = state;
+    this.notify({ type: 'node', nodeId, state });
+  }
+
+  private log(
+    result: FlowgraphRunResult,
+    level: FlowgraphRunLogLevel,
+    message: string,
+    nodeId?: string,
+    data?: unknown,
+  ): void {
+    const entry: FlowgraphRunLogEntry = { timestamp: this.now(), level, message, nodeId, data };
+    result.log.push(entry);
+    this.notify({ type: 'log', entry });
+  }
+
+  private notify(event: FlowgraphExecutorEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+export type {
+  FlowgraphExecutorEvent,
+  FlowgraphExecutorListener,
+  FlowgraphExecutorOptions,
+  FlowgraphNodeHandler,
+  FlowgraphNodeHandlerContext,
+  FlowgraphNodeRunState,
+  FlowgraphNodeStatus,
+  FlowgraphPortValues,
+  FlowgraphRunLogEntry,
+  FlowgraphRunLogLevel,
+  FlowgraphRunOptions,
+  FlowgraphRunResult,
+  FlowgraphRunStatus,
+} from './executor.js';
+
+export { FlowgraphExecutor } from './executor.js';
\ No newline at end of file
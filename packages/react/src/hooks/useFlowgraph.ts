@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from 'react';
-import { FlowGraph, type FlowGraphOptions, type FlowGraphState } from '@flowtomic/flowgraph';
+import { applyGraphPatch, FlowGraph, type FlowGraphOptions, type FlowGraphState } from '@flowtomic/flowgraph';
 
 export interface UseFlowgraphOptions<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
   /** Optional existing graph instance to re-use. */
@@ -36,7 +36,11 @@ export const useFlowgraph = <TNodeData extends Record<string, unknown> = Record<
   const [state, setState] = useState<FlowGraphState<TNodeData>>(() => graph.getState());
 
   useEffect(() => {
-    const unsubscribe = graph.subscribe(event => setState(event.state));
+    setState(graph.getState());
+    // Patches keep untouched nodes and connections referentially stable between renders.
+    const unsubscribe = graph.subscribe(event => setState(current => applyGraphPatch(current, event.patch)), {
+      mode: 'patch',
+    });
     return unsubscribe;
   }, [graph]);
 
@@ -1,5 +1,6 @@
 export { FlowCanvas } from './renderers/FlowCanvas.js';
 export type { FlowCanvasProps, FlowCanvasHandle } from './renderers/FlowCanvas.js';
+export type { FlowNodeProps, FlowNodeTypes } from './renderers/nodeTypes.js';
 
 export { useFlowgraph } from './hooks/useFlowgraph.js';
 export type { UseFlowgraphOptions, UseFlowgraphResult } from './hooks/useFlowgraph.js';
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
 import type { CSSProperties, Ref, ReactElement } from 'react';
 import type { FlowGraph } from '@flowtomic/flowgraph';
 import {
@@ -7,6 +7,7 @@ import {
   type FlowgraphRendererSelection,
   type FlowgraphRendererViewport,
 } from '@flowtomic/flowgraph-core-view';
+import { useNodeTypePortals, type FlowNodeTypes } from './nodeTypes.js';
 
 export interface FlowCanvasHandle<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
   getRenderer: () => FlowgraphRenderer<TNodeData> | null;
@@ -19,6 +20,11 @@ export interface FlowCanvasProps<TNodeData extends Record<string, unknown> = Rec
   style?: CSSProperties;
   rendererOptions?: FlowgraphRendererOptions<TNodeData>;
   selection?: FlowgraphRendererSelection | null;
+  /**
+   * React components rendered as node bodies, keyed by `templateId`. They take precedence over
+   * `rendererOptions.nodeRenderers` for the same template.
+   */
+  nodeTypes?: FlowNodeTypes<TNodeData>;
   onRendererReady?: (renderer: FlowgraphRenderer<TNodeData>) => void;
 }
 
@@ -26,11 +32,20 @@ const FlowCanvasComponent = <TNodeData extends Record<string, unknown>>(
   props: FlowCanvasProps<TNodeData>,
   ref: Ref<FlowCanvasHandle<TNodeData> | null>,
 ) => {
-  const { graph, className, style, rendererOptions, selection, onRendererReady } = props;
+  const { graph, className, style, rendererOptions, selection, nodeTypes, onRendererReady } = props;
   const containerRef = useRef<HTMLDivElement | null>(null);
   const rendererRef = useRef<FlowgraphRenderer<TNodeData> | null>(null);
   const lastSelectionRef = useRef<FlowgraphRendererSelection | null>(null);
   const readyCallbackRef = useRef<((renderer: FlowgraphRenderer<TNodeData>) => void) | undefined>();
+  const { nodeRenderers, portals } = useNodeTypePortals(graph, nodeTypes);
+
+  const resolvedOptions = useMemo(
+    () =>
+      nodeRenderers
+        ? { ...rendererOptions, nodeRenderers: { ...rendererOptions?.nodeRenderers, ...nodeRenderers } }
+        : rendererOptions,
+    [rendererOptions, nodeRenderers],
+  );
 
   useEffect(() => {
     readyCallbackRef.current = onRendererReady;
@@ -47,7 +62,7 @@ const FlowCanvasComponent = <TNodeData extends Record<string, unknown>>(
       return;
     }
 
-    const renderer = new FlowgraphRenderer<TNodeData>(container, graph, rendererOptions ?? {});
+    const renderer = new FlowgraphRenderer<TNodeData>(container, graph, resolvedOptions ?? {});
     rendererRef.current = renderer;
     lastSelectionRef.current = renderer.getSelection();
     readyCallbackRef.current?.(renderer);
@@ -61,11 +76,11 @@ const FlowCanvasComponent = <TNodeData extends Record<string, unknown>>(
 
   useEffect(() => {
     const renderer = rendererRef.current;
-    if (!renderer || !rendererOptions) {
+    if (!renderer || !resolvedOptions) {
       return;
     }
-    renderer.updateOptions(rendererOptions);
-  }, [rendererOptions]);
+    renderer.updateOptions(resolvedOptions);
+  }, [resolvedOptions]);
 
   useEffect(() => {
     if (selection === undefined) {
@@ -91,7 +106,9 @@ const FlowCanvasComponent = <TNodeData extends Record<string, unknown>>(
       ref={containerRef}
       className={className}
       style={{ width: '100%', height: '100%', position: 'relative', ...style }}
-    />
+    >
+      {portals}
+    </div>
   );
 };
 
@@ -0,0 +1,132 @@
+import { useMemo, useState } from 'react';
+import type { ComponentType, ReactPortal } from 'react';
+import { createPortal } from 'react-dom';
+import type { FlowGraph, GraphNode, Size } from '@flowtomic/flowgraph';
+import type { FlowgraphNodeRenderContext, FlowgraphNodeRenderer } from '@flowtomic/flowgraph-core-view';
+
+export interface FlowNodeProps<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
+  node: GraphNode<TNodeData>;
+  selected: boolean;
+  /** Size of the node frame the component is rendered into. */
+  size: Size;
+  /** Shallow-merges `patch` into `node.data` through `graph.updateNode`. */
+  updateData: (patch: Partial<TNodeData>) => void;
+}
+
+/** React components keyed by `GraphNode.templateId`. Keep the object stable between renders. */
+export type FlowNodeTypes<TNodeData extends Record<string, unknown> = Record<string, unknown>> = Record<
+  string,
+  ComponentType<FlowNodeProps<TNodeData>>
+>;
+
+interface NodeBodyPortal<TNodeData extends Record<string, unknown>> {
+  templateId: string;
+  container: HTMLDivElement;
+  context: FlowgraphNodeRenderContext<TNodeData>;
+}
+
+interface NodeTypePortals<TNodeData extends Record<string, unknown>> {
+  nodeRenderers?: Record<string, FlowgraphNodeRenderer<TNodeData>>;
+  portals: ReactPortal[];
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const sizeForeignObject = (element: SVGGElement, size: Size) => {
+  const foreignObject = element.querySelector('foreignObject');
+  foreignObject?.setAttribute('width', String(size.width));
+  foreignObject?.setAttribute('height', String(size.height));
+};
+
+/**
+ * Bridges `nodeTypes` to core-view node renderers: each node body gets a `<foreignObject>` host and
+ * the matching component is portalled into it, so the renderer itself stays React-free.
+ */
+export const useNodeTypePortals = <TNodeData extends Record<string, unknown>>(
+  graph: FlowGraph<TNodeData>,
+  nodeTypes?: FlowNodeTypes<TNodeData>,
+): NodeTypePortals<TNodeData> => {
+  const [bodies, setBodies] = useState<Map<string, NodeBodyPortal<TNodeData>>>(() => new Map());
+
+  const nodeRenderers = useMemo(() => {
+    if (!nodeTypes) {
+      return undefined;
+    }
+    const mountedNodeIds = new WeakMap<SVGGElement, string>();
+    const setBody = (nodeId: string, body: NodeBodyPortal<TNodeData> | null) =>
+      setBodies(current => {
+        const next = new Map(current);
+        if (body) {
+          next.set(nodeId, body);
+        } else {
+          next.delete(nodeId);
+        }
+        return next;
+      });
+
+    const renderers: Record<string, FlowgraphNodeRenderer<TNodeData>> = {};
+    Object.keys(nodeTypes).forEach(templateId => {
+      renderers[templateId] = {
+        mount: (element, context) => {
+          const foreignObject = element.ownerDocument.createElementNS(SVG_NAMESPACE, 'foreignObject');
+          const container = element.ownerDocument.createElement('div');
+          container.style.width = '100%';
+          container.style.height = '100%';
+          foreignObject.appendChild(container);
+          element.appendChild(foreignObject);
+          sizeForeignObject(element, context.size);
+          mountedNodeIds.set(element, context.node.id);
+          setBody(context.node.id, { templateId, container, context });
+        },
+        update: (element, context) => {
+          sizeForeignObject(element, context.size);
+          setBodies(current => {
+            const body = current.get(context.node.id);
+            if (!body) {
+              return current;
+            }
+            const next = new Map(current);
+            next.set(context.node.id, { ...body, context });
+            return next;
+          });
+        },
+        unmount: element => {
+          const nodeId = mountedNodeIds.get(element);
+          if (nodeId !== undefined) {
+            mountedNodeIds.delete(element);
+            setBody(nodeId, null);
+          }
+        },
+      };
+    });
+    return renderers;
+  }, [nodeTypes]);
+
+  const portals: ReactPortal[] = [];
+  bodies.forEach((body, nodeId) => {
+    const Component = nodeTypes?.[body.templateId];
+    if (!Component) {
+      return;
+    }
+    const updateData = (patch: Partial<TNodeData>) => {
+      const current = graph.getNode(nodeId);
+      if (current) {
+        graph.updateNode(nodeId, { data: { ...current.data, ...patch } as TNodeData });
+      }
+    };
+    portals.push(
+      createPortal(
+        <Component
+          node={body.context.node}
+          selected={body.context.selected}
+          size={body.context.size}
+          updateData={updateData}
+        />,
+        body.container,
+        nodeId,
+      ),
+    );
+  });
+
+  return { nodeRenderers, portals };
+};
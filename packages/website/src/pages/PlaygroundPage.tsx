@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { clsx } from 'clsx';
 import { FlowGraphError, buildNavigatorSummary } from '@flowtomic/flowgraph';
 import type {
+  FlowGraphLayoutStrategyName,
   FlowGraphNavigatorItem,
   FlowGraphNavigatorSummary,
   FlowGraphState,
@@ -1377,6 +1378,7 @@ const PlaygroundPage = (): JSX.Element => {
   const canvasContainerRef = useRef<HTMLDivElement | null>(null);
   const [selectedPresetId, setSelectedPresetId] = useState<PlaygroundPreset['id']>('workflow');
   const [selection, setSelection] = useState<FlowgraphRendererSelection | null>(null);
+  const [layoutStrategy, setLayoutStrategy] = useState<FlowGraphLayoutStrategyName>('layered');
   const [error, setError] = useState<string | null>(null);
   const [viewport, setViewport] = useState<FlowgraphRendererViewport | null>(null);
   const [settingsCollapsed, setSettingsCollapsed] = useState(false);
@@ -1699,6 +1701,16 @@ const PlaygroundPage = (): JSX.Element => {
     [canvasRef, graph, normalizedZoomExtent, viewport],
   );
 
+  const handleAutoLayout = useCallback(() => {
+    const renderer = canvasRef.current?.getRenderer();
+    if (!renderer) {
+      return;
+    }
+    // With several nodes selected only those are rearranged; otherwise the whole graph is.
+    const { nodeIds } = renderer.getSelectedIds();
+    renderer.layout({ strategy: layoutStrategy, nodeIds: nodeIds.size > 1 ? nodeIds : undefined, animate: true });
+  }, [canvasRef, layoutStrategy]);
+
   const handleFitToContent = useCallback(() => {
     const container = canvasContainerRef.current;
     if (!container) {
@@ -3259,6 +3271,19 @@ const PlaygroundPage = (): JSX.Element => {
               <button type="button" onClick={handleResetView}>Reset view</button>
               <button type="button" onClick={handleFitToContent}>Fit contents</button>
             </div>
+            <div className={styles.canvasToolbarGroup}>
+              <select
+                value={layoutStrategy}
+                onChange={event => setLayoutStrategy(event.target.value as FlowGraphLayoutStrategyName)}
+                aria-label="Layout strategy"
+              >
+                <option value="layered">Layered</option>
+                <option value="force">Force-directed</option>
+                <option value="grid">Grid</option>
+                <option value="radial">Radial</option>
+              </select>
+              <button type="button" onClick={handleAutoLayout}>Auto layout</button>
+            </div>
             <div className={styles.canvasToolbarStatus}>
               <span>
                 Zoom <strong>{viewport ? viewport.zoom.toFixed(2) : '—'}×</strong>
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { createFragment, parseFragment, pasteFragment } from '../clipboard.js';
+import { FlowGraphValidationError } from '../errors.js';
+import { FlowGraph } from '../flowGraph.js';
+import type { GraphNode } from '../types.js';
+
+const node = (id: string, x: number, y: number): GraphNode => ({
+  id,
+  label: id,
+  position: { x, y },
+  ports: [
+    { id: 'in', direction: 'input' },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const createSource = () => {
+  const graph = new FlowGraph();
+  graph.addNode(node('a', 100, 50));
+  graph.addNode(node('b', 300, 80));
+  graph.addNode(node('c', 500, 0));
+  graph.addConnection({
+    id: 'ab',
+    source: { nodeId: 'a', portId: 'out' },
+    target: { nodeId: 'b', portId: 'in' },
+    path: [{ x: 200, y: 60 }],
+  });
+  graph.addConnection({ id: 'bc', source: { nodeId: 'b', portId: 'out' }, target: { nodeId: 'c', portId: 'in' } });
+  graph.addGroup({ id: 'g', label: 'Group', nodeIds: [] });
+  graph.assignNodeToGroup('a', 'g');
+  graph.assignNodeToGroup('b', 'g');
+  return graph;
+};
+
+describe('createFragment', () => {
+  it('keeps only connections between copied nodes and groups that were copied', () => {
+    const fragment = createFragment(createSource(), { nodeIds: ['a', 'b'] });
+
+    expect(fragment.nodes.map(entry => [entry.id, entry.groupId])).toEqual([
+      ['a', undefined],
+      ['b', undefined],
+    ]);
+    expect(fragment.connections.map(connection => connection.id)).toEqual(['ab']);
+    expect(fragment.groups).toEqual([]);
+  });
+
+  it('copies the members of selected groups', () => {
+    const fragment = createFragment(createSource(), { groupIds: ['g'] });
+
+    expect(fragment.nodes.map(entry => [entry.id, entry.groupId])).toEqual([
+      ['a', 'g'],
+      ['b', 'g'],
+    ]);
+    expect(fragment.groups.map(group => group.id)).toEqual(['g']);
+  });
+});
+
+describe('pasteFragment', () => {
+  it('gives every entity a fresh id and remaps endpoints and group members', () => {
+    let counter = 0;
+    const source = createSource();
+    const target = new FlowGraph({ idGenerator: () => `new-${(counter += 1)}` });
+    const fragment = parseFragment(JSON.stringify(createFragment(source, { groupIds: ['g'] })));
+
+    const result = pasteFragment(target, fragment);
+
+    expect(Object.keys(result.idMap).sort()).toEqual(['a', 'ab', 'b', 'g']);
+    expect(new Set(Object.values(result.idMap)).size).toBe(4);
+    const { idMap } = result;
+    expect(target.getConnection(idMap.ab)).toMatchObject({
+      source: { nodeId: idMap.a, portId: 'out' },
+      target: { nodeId: idMap.b, portId: 'in' },
+    });
+    expect(target.getNode(idMap.a)!.groupId).toBe(idMap.g);
+    expect(target.getState().groups).toEqual([expect.objectContaining({ id: idMap.g, nodeIds: [idMap.a, idMap.b] })]);
+  });
+
+  it('pastes into the source graph without touching the originals', () => {
+    const graph = createSource();
+    const before = graph.getState();
+
+    const result = pasteFragment(graph, createFragment(graph, { nodeIds: ['a', 'b'] }));
+
+    expect(graph.getState().nodes).toHaveLength(5);
+    expect(graph.getState().connections).toHaveLength(3);
+    expect(graph.getNode('a')).toEqual(before.nodes[0]);
+    expect(result.nodes.map(entry => entry.id)).not.toContain('a');
+  });
+
+  it('offsets positions and waypoints', () => {
+    const graph = createSource();
+    const fragment = createFragment(graph, { nodeIds: ['a', 'b'] });
+
+    const shifted = pasteFragment(graph, fragment);
+    expect(shifted.nodes.map(entry => entry.position)).toEqual([
+      { x: 132, y: 82 },
+      { x: 332, y: 112 },
+    ]);
+    expect(shifted.connections[0].path).toEqual([{ x: 232, y: 92 }]);
+
+    const placed = pasteFragment(graph, fragment, { position: { x: 0, y: 0 } });
+    expect(placed.nodes.map(entry => entry.position)).toEqual([
+      { x: 0, y: 0 },
+      { x: 200, y: 30 },
+    ]);
+  });
+
+  it('rolls back a paste that fails part way', () => {
+    const graph = createSource();
+    const before = graph.getState();
+    const fragment = createFragment(graph, { nodeIds: ['a', 'b'] });
+    fragment.connections[0].target.portId = 'missing';
+
+    expect(() => pasteFragment(graph, fragment)).toThrow();
+    expect(graph.getState()).toEqual(before);
+  });
+});
+
+describe('parseFragment', () => {
+  it('rejects content that is not a fragment', () => {
+    expect(() => parseFragment('plain text')).toThrow(expect.objectContaining({ code: 'INVALID_STATE' }));
+    expect(() => parseFragment({ format: 'flowgraph-fragment', version: 99, nodes: [] })).toThrow(
+      expect.objectContaining({ code: 'DOCUMENT_VERSION_UNSUPPORTED' }),
+    );
+  });
+
+  it('validates the fragment contents', () => {
+    expect(() => parseFragment({ format: 'flowgraph-fragment', version: 1, nodes: [{ id: 'x' }] })).toThrow(
+      FlowGraphValidationError,
+    );
+  });
+});
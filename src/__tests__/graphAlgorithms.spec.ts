@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraphError } from '../errors.js';
+import { FlowGraph } from '../flowGraph.js';
+import { findShortestPath, getStronglyConnectedComponents, hasCycle, topologicalSort } from '../graphAlgorithms.js';
+import type { FlowGraphState, GraphConnection, GraphNode } from '../types.js';
+
+const node = (id: string): GraphNode => ({
+  id,
+  label: id,
+  position: { x: 0, y: 0 },
+  ports: [
+    { id: 'in', direction: 'input' },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const edge = (source: string, target: string): GraphConnection => ({
+  id: `${source}-${target}`,
+  source: { nodeId: source, portId: 'out' },
+  target: { nodeId: target, portId: 'in' },
+});
+
+const createGraph = (nodeIds: string[], edges: [string, string][], acyclic = false): FlowGraph => {
+  const graph = new FlowGraph({ acyclic });
+  nodeIds.forEach(id => graph.addNode(node(id)));
+  edges.forEach(([source, target]) => graph.addConnection(edge(source, target)));
+  return graph;
+};
+
+const sortComponents = (components: string[][]): string[][] =>
+  components.map(component => [...component].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+describe('getStronglyConnectedComponents', () => {
+  it('groups nodes on a cycle and leaves the rest as singletons', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c', 'd', 'e'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+        ['c', 'a'],
+        ['c', 'd'],
+        ['d', 'e'],
+      ],
+    );
+    expect(sortComponents(getStronglyConnectedComponents(graph))).toEqual([['a', 'b', 'c'], ['d'], ['e']]);
+  });
+
+  it('finds separate cycles as separate components', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c', 'd'],
+      [
+        ['a', 'b'],
+        ['b', 'a'],
+        ['b', 'c'],
+        ['c', 'd'],
+        ['d', 'c'],
+      ],
+    );
+    expect(sortComponents(getStronglyConnectedComponents(graph))).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('accepts a bare state snapshot', () => {
+    const state = createGraph(['a', 'b'], [['a', 'b']]).getState();
+    expect(sortComponents(getStronglyConnectedComponents(state))).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('findShortestPath', () => {
+  const graph = createGraph(
+    ['a', 'b', 'c', 'd'],
+    [
+      ['a', 'b'],
+      ['b', 'c'],
+      ['c', 'd'],
+      ['a', 'c'],
+    ],
+  );
+
+  it('returns the path with the fewest connections', () => {
+    expect(findShortestPath(graph, 'a', 'd')).toEqual({
+      nodeIds: ['a', 'c', 'd'],
+      connectionIds: ['a-c', 'c-d'],
+    });
+  });
+
+  it('returns null when the target is not reachable', () => {
+    expect(findShortestPath(graph, 'd', 'a')).toBeNull();
+  });
+
+  it('walks connections backwards when undirected', () => {
+    expect(findShortestPath(graph, 'd', 'a', { directed: false })).toEqual({
+      nodeIds: ['d', 'c', 'a'],
+      connectionIds: ['c-d', 'a-c'],
+    });
+  });
+
+  it('returns a single-node path from a node to itself', () => {
+    expect(findShortestPath(graph, 'b', 'b')).toEqual({ nodeIds: ['b'], connectionIds: [] });
+  });
+
+  it('throws for unknown nodes', () => {
+    expect(() => findShortestPath(graph, 'a', 'missing')).toThrow(FlowGraphError);
+  });
+});
+
+describe('topologicalSort', () => {
+  it('orders every source before its targets', () => {
+    const edges: [string, string][] = [
+      ['a', 'b'],
+      ['a', 'c'],
+      ['b', 'd'],
+      ['c', 'd'],
+    ];
+    const order = topologicalSort(createGraph(['d', 'c', 'b', 'a'], edges))!;
+    expect([...order].sort()).toEqual(['a', 'b', 'c', 'd']);
+    edges.forEach(([source, target]) => expect(order.indexOf(source)).toBeLessThan(order.indexOf(target)));
+  });
+
+  it('breaks ties by the order of the nodes in the state', () => {
+    const graph = createGraph(
+      ['e', 'a', 'd', 'b', 'c'],
+      [
+        ['e', 'c'],
+        ['a', 'b'],
+        ['d', 'b'],
+      ],
+    );
+    expect(topologicalSort(graph)).toEqual(['e', 'a', 'd', 'b', 'c']);
+    expect(topologicalSort(createGraph(['c', 'b', 'a'], [['c', 'a']]))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('returns null when the graph contains a cycle', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+        ['c', 'b'],
+      ],
+    );
+    expect(topologicalSort(graph)).toBeNull();
+    expect(hasCycle(graph)).toBe(true);
+  });
+});
+
+describe('FlowGraph acyclic mode', () => {
+  const expectCycleError = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      expect(error).toBeInstanceOf(FlowGraphError);
+      expect((error as FlowGraphError).code).toBe('CYCLE_DETECTED');
+      return error as FlowGraphError;
+    }
+    throw new Error('Expected CYCLE_DETECTED.');
+  };
+
+  it('rejects a connection that closes a cycle and leaves the graph unchanged', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+      ],
+      true,
+    );
+    const before = graph.getState();
+    const error = expectCycleError(() => graph.addConnection(edge('c', 'a')));
+    expect(error.message).toContain('a → b → c → a');
+    expect(graph.getState()).toEqual(before);
+  });
+
+  it('allows cycles by default', () => {
+    const graph = createGraph(['a', 'b'], [['a', 'b']]);
+    graph.addConnection(edge('b', 'a'));
+    expect(graph.getState().connections).toHaveLength(2);
+  });
+
+  it('rejects rerouting a connection into a cycle', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+      ],
+      true,
+    );
+    expectCycleError(() => graph.updateConnection('b-c', { target: { nodeId: 'a', portId: 'in' } }));
+    expect(graph.getConnection('b-c')!.target.nodeId).toBe('c');
+  });
+
+  it('lets the metadata flag override the constructor option', () => {
+    const graph = createGraph(['a', 'b'], [['a', 'b']], true);
+    graph.setMetadata({ acyclic: false });
+    graph.addConnection(edge('b', 'a'));
+    expectCycleError(() => graph.setMetadata({ acyclic: true }));
+    expect(graph.getState().metadata).toEqual({ acyclic: false });
+  });
+
+  it('rejects patches that introduce a cycle as a whole', () => {
+    const graph = createGraph(['a', 'b'], [['a', 'b']], true);
+    expectCycleError(() =>
+      graph.applyPatch([
+        { op: 'add', path: '/nodes/c', value: node('c') },
+        { op: 'add', path: '/connections/b-c', value: edge('b', 'c') },
+        { op: 'add', path: '/connections/c-a', value: edge('c', 'a') },
+      ]),
+    );
+    expect(graph.getState().nodes.map(entry => entry.id)).toEqual(['a', 'b']);
+  });
+
+  it('rejects importing a cyclic state and keeps the previous one', () => {
+    const graph = createGraph(['a'], [], true);
+    const cyclic: FlowGraphState = createGraph(
+      ['a', 'b'],
+      [
+        ['a', 'b'],
+        ['b', 'a'],
+      ],
+    ).getState();
+    expectCycleError(() => graph.importState(cyclic));
+    expect(graph.getState().nodes.map(entry => entry.id)).toEqual(['a']);
+  });
+});
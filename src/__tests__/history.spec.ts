@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraph } from '../flowGraph.js';
+import { FlowGraphHistory } from '../history.js';
+import type { GraphNode } from '../types.js';
+
+const node = (id: string, x = 0): GraphNode => ({
+  id,
+  label: id,
+  position: { x, y: 0 },
+  ports: [
+    { id: 'in', direction: 'input' },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const nodeIds = (graph: FlowGraph) => graph.getState().nodes.map(entry => entry.id);
+
+describe('FlowGraphHistory', () => {
+  it('undoes and redoes single mutations', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+    graph.moveNode('a', { x: 50, y: 20 });
+
+    expect(history.size).toBe(2);
+    expect(history.undo()).toBe(true);
+    expect(graph.getNode('a')!.position).toEqual({ x: 0, y: 0 });
+    expect(history.undo()).toBe(true);
+    expect(nodeIds(graph)).toEqual([]);
+    expect(history.canUndo).toBe(false);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(true);
+    expect(graph.getNode('a')!.position).toEqual({ x: 50, y: 20 });
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('restores connections removed together with their node', () => {
+    const graph = new FlowGraph();
+    graph.addNode(node('a'));
+    graph.addNode(node('b'));
+    graph.addConnection({ id: 'ab', source: { nodeId: 'a', portId: 'out' }, target: { nodeId: 'b', portId: 'in' } });
+    const history = new FlowGraphHistory(graph);
+    const removed = graph.getNode('a');
+
+    graph.removeNode('a');
+    history.undo();
+
+    expect(graph.getNode('a')).toEqual(removed);
+    expect(graph.getConnection('ab')).toMatchObject({ source: { nodeId: 'a' }, target: { nodeId: 'b' } });
+  });
+
+  it('clears the redo stack on a new mutation', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+    history.undo();
+    graph.addNode(node('b'));
+
+    expect(history.canRedo).toBe(false);
+    expect(history.redo()).toBe(false);
+    expect(nodeIds(graph)).toEqual(['b']);
+  });
+
+  it('does not record its own replays', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+    history.undo();
+    history.redo();
+
+    expect(history.size).toBe(1);
+  });
+
+  it('records a group as one step, including nested groups', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+
+    history.beginGroup('drag');
+    graph.moveNode('a', { x: 10, y: 0 });
+    history.beginGroup();
+    graph.moveNode('a', { x: 20, y: 0 });
+    history.endGroup();
+    graph.moveNode('a', { x: 30, y: 0 });
+    history.endGroup();
+
+    expect(history.size).toBe(2);
+    history.undo();
+    expect(graph.getNode('a')!.position).toEqual({ x: 0, y: 0 });
+    history.redo();
+    expect(graph.getNode('a')!.position).toEqual({ x: 30, y: 0 });
+  });
+
+  it('skips empty groups and commits an open group before undoing', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    history.beginGroup();
+    history.endGroup();
+    expect(history.size).toBe(0);
+
+    history.beginGroup();
+    graph.addNode(node('a'));
+    expect(history.undo()).toBe(true);
+    expect(nodeIds(graph)).toEqual([]);
+    history.endGroup();
+    expect(history.canRedo).toBe(true);
+  });
+
+  it('records a transaction as one step', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.transaction(target => {
+      target.addNode(node('a'));
+      target.addNode(node('b'));
+    });
+
+    expect(history.size).toBe(1);
+    history.undo();
+    expect(nodeIds(graph)).toEqual([]);
+  });
+
+  it('drops the oldest steps beyond the limit', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph, { limit: 2 });
+    graph.addNode(node('a'));
+    graph.addNode(node('b'));
+    graph.addNode(node('c'));
+
+    expect(history.size).toBe(2);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(nodeIds(graph)).toEqual(['a']);
+  });
+
+  it('ignores viewport-only changes', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+    graph.setViewport({ x: 100, y: 100 }, 2);
+
+    expect(history.size).toBe(1);
+    history.undo();
+    expect(nodeIds(graph)).toEqual([]);
+    expect(graph.getState().viewport).toEqual({ position: { x: 100, y: 100 }, zoom: 2 });
+  });
+
+  it('records template registration', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.registerTemplate({ id: 'tpl', label: 'Template', ports: [] });
+
+    history.undo();
+    expect(graph.getTemplate('tpl')).toBeUndefined();
+    history.redo();
+    expect(graph.getTemplate('tpl')?.label).toBe('Template');
+  });
+
+  it('stops recording once destroyed', () => {
+    const graph = new FlowGraph();
+    const history = new FlowGraphHistory(graph);
+    graph.addNode(node('a'));
+    history.destroy();
+    graph.addNode(node('b'));
+
+    expect(history.size).toBe(0);
+    expect(history.canUndo).toBe(false);
+  });
+});
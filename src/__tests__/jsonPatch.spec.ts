@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraphError } from '../errors.js';
+import { FlowGraph } from '../flowGraph.js';
+import { diffStates } from '../jsonPatch.js';
+import type { FlowGraphState, GraphConnection, GraphNode } from '../types.js';
+
+const node = (id: string, x = 0, templateId?: string): GraphNode => ({
+  id,
+  label: id,
+  templateId,
+  position: { x, y: 0 },
+  ports: [
+    { id: 'in', direction: 'input', maxConnections: 1 },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const edge = (id: string, source: string, target: string): GraphConnection => ({
+  id,
+  source: { nodeId: source, portId: 'out' },
+  target: { nodeId: target, portId: 'in' },
+});
+
+const state = (partial: Partial<FlowGraphState>): FlowGraphState => ({
+  nodes: [],
+  connections: [],
+  groups: [],
+  ...partial,
+});
+
+// Replays `diffStates(before, after)` onto a graph holding `before` and returns the resulting state.
+const roundTrip = (before: FlowGraphState, after: FlowGraphState, options: { acyclic?: boolean } = {}) => {
+  const graph = new FlowGraph({ ...options, initialState: before });
+  graph.applyPatch(diffStates(before, after));
+  return graph.getState();
+};
+
+const byId = <TEntity extends { id: string }>(entities: TEntity[] = []) =>
+  Object.fromEntries(entities.map(entity => [entity.id, entity]));
+
+describe('diffStates', () => {
+  it('addresses entities by id', () => {
+    const before = state({ nodes: [node('a'), node('b')] });
+    const after = state({ nodes: [node('b'), node('a', 40)] });
+
+    expect(diffStates(before, after)).toEqual([{ op: 'replace', path: '/nodes/a/position', value: { x: 40, y: 0 } }]);
+  });
+
+  it('returns no operations for equal states', () => {
+    const before = state({ nodes: [node('a')], metadata: { owner: 'me' } });
+    expect(diffStates(before, JSON.parse(JSON.stringify(before)))).toEqual([]);
+  });
+
+  it('escapes ids that contain pointer characters', () => {
+    const after = state({ nodes: [node('a/b~c')] });
+    expect(diffStates(state({}), after)[0].path).toBe('/nodes/a~1b~0c');
+  });
+});
+
+describe('applyPatch(diffStates(before, after))', () => {
+  it('adds, updates and removes nodes, connections, groups and metadata', () => {
+    const before = state({
+      nodes: [node('a'), node('b'), node('c')],
+      connections: [edge('ab', 'a', 'b')],
+      groups: [{ id: 'g', label: 'Group', nodeIds: [] }],
+      metadata: { owner: 'me' },
+    });
+    const after = state({
+      nodes: [node('a', 10), node('b'), { ...node('d'), groupId: 'h' }],
+      connections: [edge('ab', 'a', 'b'), edge('bd', 'b', 'd')],
+      groups: [{ id: 'h', label: 'Other', nodeIds: ['d'] }],
+      viewport: { position: { x: 5, y: 5 }, zoom: 2 },
+      metadata: { owner: 'you', tags: ['x'] },
+    });
+
+    const result = roundTrip(before, after);
+
+    expect(byId(result.nodes)).toEqual(byId(new FlowGraph({ initialState: after }).getState().nodes));
+    expect(result.connections.map(connection => connection.id).sort()).toEqual(['ab', 'bd']);
+    expect(result.groups).toEqual([expect.objectContaining({ id: 'h', nodeIds: ['d'] })]);
+    expect(result.viewport).toEqual(after.viewport);
+    expect(result.metadata).toEqual(after.metadata);
+  });
+
+  it('registers templates before the nodes that use them and removes them after', () => {
+    const template = { id: 'tpl', label: 'Template', ports: [] };
+    const before = state({ nodes: [node('old', 0, 'legacy')], templates: [{ ...template, id: 'legacy' }] });
+    const after = state({ nodes: [node('new', 0, 'tpl')], templates: [template] });
+
+    const result = roundTrip(before, after);
+
+    expect(result.templates?.map(entry => entry.id)).toEqual(['tpl']);
+    expect(result.nodes.map(entry => entry.templateId)).toEqual(['tpl']);
+  });
+
+  it('moves a connection off a full port before adding the one that takes its place', () => {
+    const before = state({ nodes: [node('a'), node('b'), node('c')], connections: [edge('x', 'a', 'b')] });
+    const after = state({
+      nodes: [node('a'), node('b'), node('c')],
+      connections: [edge('x', 'a', 'c'), edge('y', 'c', 'b')],
+    });
+
+    const result = roundTrip(before, after);
+
+    expect(byId(result.connections).x.target.nodeId).toBe('c');
+    expect(byId(result.connections).y.target.nodeId).toBe('b');
+  });
+
+  it('applies a patch that drops metadata.acyclic together with a cycle-forming connection', () => {
+    const nodes = [node('a'), node('b')];
+    const before = state({ nodes, connections: [edge('ab', 'a', 'b')], metadata: { acyclic: true } });
+    const after = state({ nodes, connections: [edge('ab', 'a', 'b'), edge('ba', 'b', 'a')] });
+
+    expect(roundTrip(before, after).connections).toHaveLength(2);
+    expect(roundTrip(before, { ...after, metadata: { acyclic: false } }, { acyclic: true }).connections).toHaveLength(2);
+  });
+
+  it('applies a patch that breaks a cycle and then enables metadata.acyclic', () => {
+    const nodes = [node('a'), node('b')];
+    const before = state({ nodes, connections: [edge('ab', 'a', 'b'), edge('ba', 'b', 'a')] });
+    const after = state({ nodes, connections: [edge('ab', 'a', 'b')], metadata: { acyclic: true } });
+
+    expect(roundTrip(before, after).metadata).toEqual({ acyclic: true });
+  });
+
+  it('rejects a patch whose result contains a cycle in an acyclic graph and keeps the graph unchanged', () => {
+    const nodes = [node('a'), node('b')];
+    const before = state({ nodes, connections: [edge('ab', 'a', 'b')], metadata: { acyclic: true } });
+    const after = state({ ...before, connections: [edge('ab', 'a', 'b'), edge('ba', 'b', 'a')] });
+    const graph = new FlowGraph({ initialState: before });
+
+    expect(() => graph.applyPatch(diffStates(before, after))).toThrow(
+      expect.objectContaining({ code: 'CYCLE_DETECTED' }),
+    );
+    expect(graph.getState().connections.map(connection => connection.id)).toEqual(['ab']);
+  });
+
+  it('validates operations with the mutation rules and rolls back on failure', () => {
+    const graph = new FlowGraph({ initialState: state({ nodes: [node('a'), node('b')] }) });
+    const before = graph.getState();
+
+    expect(() =>
+      graph.applyPatch([
+        { op: 'replace', path: '/nodes/a/position/x', value: 99 },
+        { op: 'add', path: '/connections/bad', value: { ...edge('bad', 'a', 'b'), source: { nodeId: 'a', portId: 'in' } } },
+      ]),
+    ).toThrow(FlowGraphError);
+    expect(graph.getState()).toEqual(before);
+  });
+
+  it('fails a test operation whose value does not match', () => {
+    const graph = new FlowGraph({ initialState: state({ nodes: [node('a')] }) });
+    expect(() => graph.applyPatch([{ op: 'test', path: '/nodes/a/label', value: 'b' }])).toThrow(
+      expect.objectContaining({ code: 'INVALID_PATCH' }),
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraphError } from '../errors.js';
+import { FlowGraph } from '../flowGraph.js';
+import type { GraphBatchPayload, GraphChangeEvent, GraphNode } from '../types.js';
+
+const node = (id: string): GraphNode => ({
+  id,
+  label: id,
+  position: { x: 0, y: 0 },
+  ports: [
+    { id: 'in', direction: 'input' },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const createGraph = () => {
+  const graph = new FlowGraph();
+  const events: GraphChangeEvent[] = [];
+  graph.subscribe(event => events.push(event));
+  return { graph, events };
+};
+
+describe('FlowGraph.transaction', () => {
+  it('emits one graph:batch event listing the sub-operations', () => {
+    const { graph, events } = createGraph();
+    const result = graph.transaction(target => {
+      target.addNode(node('a'));
+      target.addNode(node('b'));
+      return target.addConnection({
+        id: 'ab',
+        source: { nodeId: 'a', portId: 'out' },
+        target: { nodeId: 'b', portId: 'in' },
+      });
+    });
+
+    expect(result.id).toBe('ab');
+    expect(events).toHaveLength(1);
+    expect(events[0].reason).toBe('graph:batch');
+    expect((events[0].payload as GraphBatchPayload).operations.map(operation => operation.reason)).toEqual([
+      'node:add',
+      'node:add',
+      'connection:add',
+    ]);
+    expect(events[0].changes!.map(change => `${change.kind}:${change.id}`)).toEqual(['node:a', 'node:b', 'connection:ab']);
+    expect(events[0].state.nodes).toHaveLength(2);
+  });
+
+  it('rolls back every mutation and rethrows when the callback throws', () => {
+    const { graph, events } = createGraph();
+    graph.addNode(node('a'));
+    const before = graph.getState();
+    events.length = 0;
+
+    expect(() =>
+      graph.transaction(target => {
+        target.moveNode('a', { x: 100, y: 100 });
+        target.addNode(node('b'));
+        target.addNode(node('b'));
+      }),
+    ).toThrow(FlowGraphError);
+
+    expect(graph.getState()).toEqual(before);
+    expect(events).toHaveLength(0);
+  });
+
+  it('rolls back a failed nested transaction without aborting the outer one', () => {
+    const { graph, events } = createGraph();
+    graph.transaction(target => {
+      target.addNode(node('a'));
+      try {
+        target.transaction(inner => {
+          inner.addNode(node('b'));
+          throw new Error('inner failure');
+        });
+      } catch {
+        // The outer transaction keeps going.
+      }
+      target.addNode(node('c'));
+    });
+
+    expect(graph.getState().nodes.map(entry => entry.id)).toEqual(['a', 'c']);
+    expect(events).toHaveLength(1);
+    expect((events[0].payload as GraphBatchPayload).operations).toHaveLength(2);
+  });
+
+  it('emits nothing for a transaction without mutations', () => {
+    const { graph, events } = createGraph();
+    expect(graph.batch(() => 42)).toBe(42);
+    expect(events).toHaveLength(0);
+  });
+});
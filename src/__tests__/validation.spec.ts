@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { FlowGraphValidationError } from '../errors.js';
+import { FlowGraph } from '../flowGraph.js';
+import { validateState } from '../validation.js';
+import type { FlowGraphState, GraphNode } from '../types.js';
+
+const node = (id: string): GraphNode => ({
+  id,
+  label: id,
+  position: { x: 0, y: 0 },
+  ports: [
+    { id: 'in', direction: 'input' },
+    { id: 'out', direction: 'output' },
+  ],
+});
+
+const validState = (): FlowGraphState => ({
+  nodes: [node('a'), { ...node('b'), groupId: 'g' }],
+  connections: [{ id: 'ab', source: { nodeId: 'a', portId: 'out' }, target: { nodeId: 'b', portId: 'in' } }],
+  groups: [{ id: 'g', label: 'Group', nodeIds: ['b'] }],
+  viewport: { position: { x: 0, y: 0 }, zoom: 1 },
+});
+
+// Applies `mutate` to a JSON copy of a valid state, so tests can write values the types forbid.
+const broken = (mutate: (state: any) => void): unknown => {
+  const state = JSON.parse(JSON.stringify(validState()));
+  mutate(state);
+  return state;
+};
+
+const issueAt = (state: unknown) => validateState(state).map(issue => `${issue.path} ${issue.code}`);
+
+describe('validateState', () => {
+  it('accepts a well-formed state', () => {
+    expect(validateState(validState())).toEqual([]);
+  });
+
+  it('rejects values that are not a graph state', () => {
+    expect(issueAt(null)).toEqual([' INVALID_TYPE']);
+    expect(issueAt({})).toEqual(['/nodes MISSING_FIELD']);
+  });
+
+  it('reports missing ids, duplicate ids and non-finite positions', () => {
+    const state = broken(draft => {
+      delete draft.nodes[0].id;
+      draft.nodes.push(node('b'));
+      draft.nodes[1].position.x = 'left';
+    });
+    expect(issueAt(state)).toEqual(
+      expect.arrayContaining(['/nodes/0/id MISSING_FIELD', '/nodes/2/id DUPLICATE_ID', '/nodes/1/position/x INVALID_VALUE']),
+    );
+  });
+
+  it('reports dangling references', () => {
+    const state = broken(draft => {
+      draft.nodes[1].groupId = 'missing';
+      draft.connections[0].target.nodeId = 'missing';
+      draft.groups[0].nodeIds.push('ghost');
+    });
+    expect(issueAt(state)).toEqual(
+      expect.arrayContaining([
+        '/nodes/1/groupId UNKNOWN_REFERENCE',
+        '/connections/0/target/nodeId UNKNOWN_REFERENCE',
+        '/groups/0/nodeIds/1 UNKNOWN_REFERENCE',
+      ]),
+    );
+  });
+
+  it('checks port directions at connection endpoints', () => {
+    const state = broken(draft => {
+      draft.connections[0].source.portId = 'in';
+    });
+    expect(issueAt(state)).toEqual(['/connections/0/source/portId INVALID_VALUE']);
+  });
+
+  it('checks the structure of node forms', () => {
+    const state = broken(draft => {
+      draft.nodes[0].form = {
+        sections: [
+          {
+            id: 's',
+            fields: [
+              { id: 'f', label: 'Field', kind: 'slider' },
+              { id: 'g', label: 'Select', kind: 'select', options: [{ value: 1 }] },
+            ],
+          },
+          { id: 's', fields: 'none' },
+        ],
+      };
+    });
+    expect(issueAt(state)).toEqual([
+      '/nodes/0/form/sections/0/fields/0/kind INVALID_VALUE',
+      '/nodes/0/form/sections/0/fields/1/options/0 INVALID_VALUE',
+      '/nodes/0/form/sections/1/id DUPLICATE_ID',
+      '/nodes/0/form/sections/1/fields INVALID_TYPE',
+    ]);
+    expect(issueAt(broken(draft => (draft.nodes[0].form = {})))).toEqual(['/nodes/0/form/sections MISSING_FIELD']);
+  });
+
+  it('checks boolean port and node flags', () => {
+    const state = broken(draft => {
+      draft.nodes[0].ports[0].allowLoopback = 'yes';
+      draft.nodes[0].readonly = 1;
+    });
+    expect(issueAt(state)).toEqual(['/nodes/0/ports/0/allowLoopback INVALID_TYPE', '/nodes/0/readonly INVALID_TYPE']);
+  });
+
+  it('rejects a non-finite viewport zoom', () => {
+    expect(issueAt(broken(draft => (draft.viewport.zoom = null)))).toEqual(['/viewport/zoom INVALID_VALUE']);
+  });
+});
+
+describe('FlowGraph.importState strict mode', () => {
+  it('throws INVALID_STATE with the issues and leaves the graph untouched', () => {
+    const graph = new FlowGraph({ initialState: validState() });
+    const before = graph.getState();
+    const events: unknown[] = [];
+    graph.subscribe(event => events.push(event));
+    const state = broken(draft => {
+      draft.nodes[0].form = { sections: [{ id: 's', fields: [{ id: 'f', kind: 'text' }] }] };
+    }) as FlowGraphState;
+
+    let error: unknown;
+    try {
+      graph.importState(state, { strict: true });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(FlowGraphValidationError);
+    expect((error as FlowGraphValidationError).code).toBe('INVALID_STATE');
+    expect((error as FlowGraphValidationError).issues.map(issue => issue.path)).toEqual([
+      '/nodes/0/form/sections/0/fields/0/label',
+    ]);
+    expect(graph.getState()).toEqual(before);
+    expect(events).toHaveLength(0);
+  });
+
+  it('imports a valid state', () => {
+    const graph = new FlowGraph();
+    graph.importState(validState(), { strict: true });
+    expect(graph.getState().nodes.map(entry => entry.id)).toEqual(['a', 'b']);
+  });
+});
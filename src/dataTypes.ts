@@ -0,0 +1,159 @@
+import { FlowGraphError } from './errors.js';
+
+/** Root of the type hierarchy: every data type can flow into an `any` port. */
+export const ANY_DATA_TYPE = 'any';
+/** Matches every type, on its own (`*`) or as a type argument (`list<*>`). */
+export const WILDCARD_DATA_TYPE = '*';
+
+export interface GraphDataTypeDefinition {
+  /** Supertypes of this type; values may flow into ports typed with any of them. */
+  extends?: string | string[];
+  description?: string;
+}
+
+/** Converts a runtime value when a coercion bridges two otherwise incompatible types. */
+export type GraphDataTypeConverter = (value: unknown) => unknown;
+
+export interface GraphDataTypeCoercion {
+  from: string;
+  to: string;
+  convert?: GraphDataTypeConverter;
+}
+
+export type GraphDataTypeCompatibility =
+  | { kind: 'assignable' }
+  | { kind: 'coercion'; coercion: GraphDataTypeCoercion };
+
+export interface FlowGraphTypeRegistryOptions {
+  types?: Record<string, GraphDataTypeDefinition>;
+  coercions?: GraphDataTypeCoercion[];
+}
+
+interface ParsedDataType {
+  name: string;
+  args: ParsedDataType[];
+}
+
+/**
+ * Parses `name` or `name<arg, ...>` with nested arguments. Input that does not follow the grammar is
+ * treated as an opaque type name so that free-form hints keep comparing by equality.
+ */
+const parseDataType = (input: string): ParsedDataType => {
+  let index = 0;
+  const readType = (): ParsedDataType | null => {
+    const start = index;
+    while (index < input.length && !'<>,'.includes(input[index])) {
+      index += 1;
+    }
+    const name = input.slice(start, index).trim();
+    if (!name) {
+      return null;
+    }
+    const args: ParsedDataType[] = [];
+    if (input[index] === '<') {
+      do {
+        index += 1;
+        const arg = readType();
+        if (!arg) {
+          return null;
+        }
+        args.push(arg);
+      } while (input[index] === ',');
+      if (input[index] !== '>') {
+        return null;
+      }
+      index += 1;
+    }
+    return { name, args };
+  };
+  const parsed = readType();
+  return parsed && index === input.length ? parsed : { name: input.trim(), args: [] };
+};
+
+export class FlowGraphTypeRegistry {
+  private readonly types = new Map<string, string[]>();
+  private readonly coercions: GraphDataTypeCoercion[] = [];
+
+  constructor(options: FlowGraphTypeRegistryOptions = {}) {
+    Object.entries(options.types ?? {}).forEach(([name, definition]) => this.register(name, definition));
+    (options.coercions ?? []).forEach(coercion => this.registerCoercion(coercion.from, coercion.to, coercion.convert));
+  }
+
+  /** Declares a type and its supertypes. Supertypes may be registered later; unknown names are nominal. */
+  register(name: string, definition: GraphDataTypeDefinition = {}): this {
+    if (!name || name === ANY_DATA_TYPE || name === WILDCARD_DATA_TYPE || /[<>,]/.test(name)) {
+      throw new FlowGraphError('INVALID_STATE', `Cannot register data type "${name}".`);
+    }
+    const parents = definition.extends === undefined ? [] : [definition.extends].flat();
+    this.types.set(name, parents);
+    return this;
+  }
+
+  registerCoercion(from: string, to: string, convert?: GraphDataTypeConverter): this {
+    this.coercions.push({ from, to, convert });
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  /** Lists every transitive supertype of `name`, nearest first, ending with `any`. */
+  getSupertypes(name: string): string[] {
+    const visited = new Set<string>([name]);
+    const queue = [...(this.types.get(name) ?? [])];
+    const supertypes: string[] = [];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (visited.has(next)) {
+        continue;
+      }
+      visited.add(next);
+      supertypes.push(next);
+      queue.push(...(this.types.get(next) ?? []));
+    }
+    if (!visited.has(ANY_DATA_TYPE)) {
+      supertypes.push(ANY_DATA_TYPE);
+    }
+    return supertypes;
+  }
+
+  /**
+   * True when a value of `source` type can flow into a `target` port without conversion. Type
+   * arguments are covariant; omitted arguments behave like `*`.
+   */
+  isAssignable(source: string, target: string): boolean {
+    return this.assignable(parseDataType(source), parseDataType(target));
+  }
+
+  /** Finds a registered coercion that bridges `source` to `target`, honouring subtyping on both ends. */
+  findCoercion(source: string, target: string): GraphDataTypeCoercion | undefined {
+    return this.coercions.find(
+      coercion => this.isAssignable(source, coercion.from) && this.isAssignable(coercion.to, target),
+    );
+  }
+
+  getCompatibility(source: string, target: string): GraphDataTypeCompatibility | null {
+    if (this.isAssignable(source, target)) {
+      return { kind: 'assignable' };
+    }
+    const coercion = this.findCoercion(source, target);
+    return coercion ? { kind: 'coercion', coercion } : null;
+  }
+
+  private assignable(source: ParsedDataType, target: ParsedDataType): boolean {
+    if (source.name === WILDCARD_DATA_TYPE || target.name === WILDCARD_DATA_TYPE || target.name === ANY_DATA_TYPE) {
+      return true;
+    }
+    if (source.name !== target.name && !this.getSupertypes(source.name).includes(target.name)) {
+      return false;
+    }
+    if (target.args.length === 0 || source.args.length === 0) {
+      return true;
+    }
+    if (source.args.length !== target.args.length) {
+      return false;
+    }
+    return target.args.every((arg, index) => this.assignable(source.args[index], arg));
+  }
+}
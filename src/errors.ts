@@ -1,3 +1,5 @@
+import type { FlowGraphValidationIssue } from './validation.js';
+
 export type FlowGraphErrorCode =
   | 'NODE_EXISTS'
   | 'NODE_NOT_FOUND'
@@ -5,17 +7,36 @@ export type FlowGraphErrorCode =
   | 'PORT_DIRECTION_MISMATCH'
   | 'PORT_CONNECTION_LIMIT'
   | 'PORT_COLOR_MISMATCH'
+  | 'PORT_TYPE_MISMATCH'
   | 'CONNECTION_EXISTS'
   | 'CONNECTION_NOT_FOUND'
   | 'GROUP_EXISTS'
   | 'GROUP_NOT_FOUND'
   | 'TEMPLATE_EXISTS'
   | 'TEMPLATE_NOT_FOUND'
-  | 'INVALID_STATE';
+  | 'INVALID_STATE'
+  | 'INVALID_PATCH'
+  | 'DOCUMENT_VERSION_UNSUPPORTED'
+  | 'MIGRATION_NOT_FOUND'
+  | 'LAYOUT_STRATEGY_NOT_FOUND'
+  | 'CYCLE_DETECTED';
 
 export class FlowGraphError extends Error {
   constructor(public readonly code: FlowGraphErrorCode, message: string) {
     super(message);
     this.name = 'FlowGraphError';
   }
+}
+
+export class FlowGraphValidationError extends FlowGraphError {
+  constructor(public readonly issues: FlowGraphValidationIssue[]) {
+    super(
+      'INVALID_STATE',
+      `Graph state failed validation with ${issues.length} issue${issues.length === 1 ? '' : 's'}: ${issues
+        .slice(0, 3)
+        .map(issue => `${issue.path || '/'} ${issue.message}`)
+        .join('; ')}${issues.length > 3 ? '; …' : ''}`,
+    );
+    this.name = 'FlowGraphValidationError';
+  }
 }
\ No newline at end of file
@@ -1,20 +1,71 @@
-import { FlowGraphError } from './errors.js';
+import { FlowGraphTypeRegistry } from './dataTypes.js';
+import { FlowGraphError, FlowGraphValidationError } from './errors.js';
+import { findCycles, findShortestPath, GraphAlgorithmSource } from './graphAlgorithms.js';
+import {
+  cloneJsonValue,
+  getJsonPointerValue,
+  GraphPatchTarget,
+  jsonEquals,
+  JsonPatchOperation,
+  parseGraphPatchPath,
+  writeJsonPointerValue,
+} from './jsonPatch.js';
+import {
+  computeAlignment,
+  computeDistribution,
+  FlowGraphAlignment,
+  FlowGraphAlignOptions,
+  FlowGraphDistribution,
+  FlowGraphLayoutPositions,
+} from './layout.js';
+import { createGraphPatch } from './patch.js';
+import { createGraphDocument, FlowGraphDocument, FlowGraphMigrationRegistry } from './serialization.js';
+import { validateState } from './validation.js';
 import {
   FlowGraphState,
+  GraphBatchOperation,
+  GraphBatchPayload,
   GraphChangeEvent,
   GraphConnection,
+  GraphEntityChange,
   GraphGroup,
   GraphNode,
   GraphNodeTemplate,
+  GraphPatchEvent,
   GraphPort,
+  GraphSubscriptionMode,
   GraphUpdateReason,
   NodeFormSchema,
   PortAddress,
   PortDirection,
   Point,
+  GraphViewport,
 } from './types.js';
 
 type FlowGraphListener<TNodeData> = (event: GraphChangeEvent<TNodeData>) => void;
+type FlowGraphPatchListener<TNodeData> = (event: GraphPatchEvent<TNodeData>) => void;
+
+export interface FlowGraphSubscribeOptions {
+  /**
+   * `'state'` (default) delivers a full cloned snapshot with every event. `'patch'` delivers only the
+   * entities that changed, which avoids cloning the whole graph on each mutation.
+   */
+  mode?: GraphSubscriptionMode;
+}
+
+interface FlowGraphTransaction<TNodeData> {
+  operations: GraphBatchOperation[];
+  changes: GraphEntityChange<TNodeData>[];
+}
+
+interface FlowGraphEntitySnapshot<TNodeData> {
+  nodes: Map<string, GraphNode<TNodeData>>;
+  connections: Map<string, GraphConnection>;
+  groups: Map<string, GraphGroup>;
+  templates: Map<string, GraphNodeTemplate<TNodeData>>;
+  viewport: FlowGraphState<TNodeData>['viewport'];
+  metadata: Record<string, unknown> | undefined;
+}
 
 const defaultId = (): string => {
   const globalObj = typeof globalThis !== 'undefined' ? (globalThis as Record<string, unknown>) : {};
@@ -29,6 +80,25 @@ export interface FlowGraphOptions<TNodeData = Record<string, unknown>> {
   initialState?: FlowGraphState<TNodeData>;
   idGenerator?: () => string;
   templates?: GraphNodeTemplate<TNodeData>[];
+  /** Migrations used by `importDocument`; also determines the version written by `serialize`. */
+  migrations?: FlowGraphMigrationRegistry;
+  /**
+   * Reject connections that would close a cycle, throwing `CYCLE_DETECTED`. A boolean `acyclic` key
+   * in the graph metadata overrides this per graph.
+   */
+  acyclic?: boolean;
+  /** Data type hierarchy used to check `GraphPort.dataType` when connecting ports. */
+  types?: FlowGraphTypeRegistry;
+}
+
+export interface FlowGraphImportOptions {
+  /** Emit a `'graph:import'` event once the state is applied. Defaults to true. */
+  notify?: boolean;
+  /**
+   * Run `validateState` first and reject malformed input with a `FlowGraphValidationError` before the
+   * graph is touched. Use it for uploads and other untrusted sources.
+   */
+  strict?: boolean;
 }
 
 function cloneNode<TNodeData>(node: GraphNode<TNodeData>): GraphNode<TNodeData> {
@@ -147,6 +217,83 @@ function cloneTemplate<TNodeData extends Record<string, unknown>>(
   };
 }
 
+function cloneViewport(viewport: GraphViewport): GraphViewport {
+  return { position: { ...viewport.position }, zoom: viewport.zoom };
+}
+
+function cloneChange<TNodeData extends Record<string, unknown>>(
+  change: GraphEntityChange<TNodeData>,
+): GraphEntityChange<TNodeData> {
+  switch (change.kind) {
+    case 'node':
+      return {
+        kind: 'node',
+        id: change.id,
+        before: change.before ? cloneNode(change.before) : undefined,
+        after: change.after ? cloneNode(change.after) : undefined,
+      };
+    case 'connection':
+      return {
+        kind: 'connection',
+        id: change.id,
+        before: change.before ? cloneConnection(change.before) : undefined,
+        after: change.after ? cloneConnection(change.after) : undefined,
+      };
+    case 'group':
+      return {
+        kind: 'group',
+        id: change.id,
+        before: change.before ? cloneGroup(change.before) : undefined,
+        after: change.after ? cloneGroup(change.after) : undefined,
+      };
+    case 'template':
+      return {
+        kind: 'template',
+        id: change.id,
+        before: change.before ? cloneTemplate(change.before) : undefined,
+        after: change.after ? cloneTemplate(change.after) : undefined,
+      };
+    case 'viewport':
+      return {
+        kind: 'viewport',
+        id: 'viewport',
+        before: change.before ? cloneViewport(change.before) : undefined,
+        after: change.after ? cloneViewport(change.after) : undefined,
+      };
+    case 'metadata':
+      return {
+        kind: 'metadata',
+        id: 'metadata',
+        before: change.before ? { ...change.before } : undefined,
+        after: change.after ? { ...change.after } : undefined,
+      };
+  }
+}
+
+function invertChange<TNodeData>(change: GraphEntityChange<TNodeData>): GraphEntityChange<TNodeData> {
+  return { ...change, before: change.after, after: change.before } as GraphEntityChange<TNodeData>;
+}
+
+function diffEntities<TNodeData>(
+  kind: 'node' | 'connection' | 'group' | 'template',
+  before: Map<string, unknown>,
+  after: Map<string, unknown>,
+): GraphEntityChange<TNodeData>[] {
+  const changes: GraphEntityChange<TNodeData>[] = [];
+  for (const [id, previous] of before) {
+    const next = after.get(id);
+    if (next !== previous) {
+      changes.push({ kind, id, before: previous, after: next } as GraphEntityChange<TNodeData>);
+    }
+  }
+  for (const [id, next] of after) {
+    if (!before.has(id)) {
+      changes.push({ kind, id, after: next } as GraphEntityChange<TNodeData>);
+    }
+  }
+  return changes;
+}
+
 export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
   private readonly nodes = new Map<string, GraphNode<TNodeData>>();
   private readonly connections = new Map<string, GraphConnection>();
@@ -155,11 +302,20 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
   private metadata: Record<string, unknown> | undefined;
   private viewport: FlowGraphState<TNodeData>['viewport'];
   private readonly listeners = new Set<FlowGraphListener<TNodeData>>();
+  private readonly patchListeners = new Set<FlowGraphPatchListener<TNodeData>>();
+  private activeTransaction: FlowGraphTransaction<TNodeData> | null = null;
+  private cycleCheckDeferred = false;
 
   private readonly idGenerator: () => string;
+  private readonly migrations: FlowGraphMigrationRegistry;
+  private readonly acyclic: boolean;
+  private readonly types: FlowGraphTypeRegistry;
 
   constructor(options: FlowGraphOptions<TNodeData> = {}) {
     this.idGenerator = options.idGenerator ?? defaultId;
+    this.migrations = options.migrations ?? new FlowGraphMigrationRegistry();
+    this.acyclic = options.acyclic ?? false;
+    this.types = options.types ?? new FlowGraphTypeRegistry();
     if (options.initialState) {
       this.importState(options.initialState, false);
     }
@@ -179,9 +335,25 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     };
   }
 
-  subscribe(listener: FlowGraphListener<TNodeData>): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+  /** Returns a fresh id from `idGenerator`, the same source used for ids omitted on add. */
+  generateId(): string {
+    return this.idGenerator();
+  }
+
+  subscribe(listener: FlowGraphListener<TNodeData>, options?: FlowGraphSubscribeOptions & { mode?: 'state' }): () => void;
+  subscribe(listener: FlowGraphPatchListener<TNodeData>, options: FlowGraphSubscribeOptions & { mode: 'patch' }): () => void;
+  subscribe(
+    listener: FlowGraphListener<TNodeData> | FlowGraphPatchListener<TNodeData>,
+    options: FlowGraphSubscribeOptions = {},
+  ): () => void {
+    if (options.mode === 'patch') {
+      const patchListener = listener as FlowGraphPatchListener<TNodeData>;
+      this.patchListeners.add(patchListener);
+      return () => this.patchListeners.delete(patchListener);
+    }
+    const stateListener = listener as FlowGraphListener<TNodeData>;
+    this.listeners.add(stateListener);
+    return () => this.listeners.delete(stateListener);
   }
 
   registerTemplate(template: GraphNodeTemplate<TNodeData>): GraphNodeTemplate<TNodeData> {
@@ -199,7 +371,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
       throw new FlowGraphError('TEMPLATE_NOT_FOUND', `Template with id "${id}" not found.`);
     }
     this.templates.delete(id);
-    this.emit('template:remove', cloneTemplate(removed));
+    this.emit('template:remove', cloneTemplate(removed), [{ kind: 'template', id, before: removed }]);
   }
 
   getTemplate(id: string): GraphNodeTemplate<TNodeData> | undefined {
@@ -229,7 +401,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     };
     this.validateTemplate(updated);
     this.templates.set(id, updated);
-    this.emit('template:update', cloneTemplate(updated));
+    this.emit('template:update', cloneTemplate(updated), [{ kind: 'template', id, before: existing, after: updated }]);
     return cloneTemplate(updated);
   }
 
@@ -313,7 +485,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     this.validateNode(node);
     const stored = cloneNode(node);
     this.nodes.set(node.id, stored);
-    this.emit('node:add', stored);
+    this.emit('node:add', stored, [{ kind: 'node', id: node.id, after: stored }]);
     return cloneNode(stored);
   }
 
@@ -338,7 +510,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     });
     this.validateNode(updated);
     this.nodes.set(id, updated);
-    this.emit('node:update', updated);
+    this.emit('node:update', updated, [{ kind: 'node', id, before: existing, after: updated }]);
     return cloneNode(updated);
   }
 
@@ -346,27 +518,54 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     return this.updateNode(id, { position });
   }
 
+  /**
+   * Aligns the nodes' edges or centres to their common bounding box in one transaction. Nodes
+   * without `size` are treated as 220×160 unless `options` say otherwise. Returns the moved nodes.
+   */
+  alignNodes(
+    nodeIds: Iterable<string>,
+    alignment: FlowGraphAlignment,
+    options?: FlowGraphAlignOptions,
+  ): GraphNode<TNodeData>[] {
+    const nodes = [...new Set(nodeIds)].map(id => this.getNodeOrThrow(id));
+    return this.moveNodesTo(computeAlignment(nodes, alignment, options));
+  }
+
+  /** Spaces three or more nodes evenly between the outermost two in one transaction. Returns the moved nodes. */
+  distributeNodes(
+    nodeIds: Iterable<string>,
+    direction: FlowGraphDistribution,
+    options?: FlowGraphAlignOptions,
+  ): GraphNode<TNodeData>[] {
+    const nodes = [...new Set(nodeIds)].map(id => this.getNodeOrThrow(id));
+    return this.moveNodesTo(computeDistribution(nodes, direction, options));
+  }
+
   setNodeData(id: string, data: TNodeData): GraphNode<TNodeData> {
     return this.updateNode(id, { data });
   }
 
   removeNode(id: string): void {
     const node = this.getNodeOrThrow(id);
-    this.nodes.delete(id);
+    const changes: GraphEntityChange<TNodeData>[] = [];
     // remove connections touching node
     for (const [connectionId, connection] of [...this.connections.entries()]) {
       if (connection.source.nodeId === id || connection.target.nodeId === id) {
         this.connections.delete(connectionId);
+        changes.push({ kind: 'connection', id: connectionId, before: connection });
       }
     }
     // remove from groups
-    for (const group of this.groups.values()) {
-      const index = group.nodeIds.indexOf(id);
-      if (index >= 0) {
-        group.nodeIds.splice(index, 1);
+    for (const [groupId, group] of [...this.groups.entries()]) {
+      if (group.nodeIds.includes(id)) {
+        const updated: GraphGroup = { ...group, nodeIds: group.nodeIds.filter(nodeId => nodeId !== id) };
+        this.groups.set(groupId, updated);
+        changes.push({ kind: 'group', id: groupId, before: group, after: updated });
       }
     }
-    this.emit('node:remove', node);
+    this.nodes.delete(id);
+    changes.push({ kind: 'node', id, before: node });
+    this.emit('node:remove', node, changes);
   }
 
   getNode(id: string): GraphNode<TNodeData> | undefined {
@@ -380,60 +579,15 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
       throw new FlowGraphError('CONNECTION_EXISTS', `Connection with id "${id}" already exists.`);
     }
 
-    const sourceNode = this.getNodeOrThrow(connection.source.nodeId);
-    const targetNode = this.getNodeOrThrow(connection.target.nodeId);
-    const sourcePort = this.getPortOrThrow(sourceNode, connection.source.portId);
-    const targetPort = this.getPortOrThrow(targetNode, connection.target.portId);
-
-    if (sourcePort.direction !== 'output') {
-      throw new FlowGraphError(
-        'PORT_DIRECTION_MISMATCH',
-        `Source port "${sourcePort.id}" on node "${sourceNode.id}" is not an output port.`,
-      );
-    }
-    if (targetPort.direction !== 'input') {
-      throw new FlowGraphError(
-        'PORT_DIRECTION_MISMATCH',
-        `Target port "${targetPort.id}" on node "${targetNode.id}" is not an input port.`,
-      );
-    }
-
-    this.assertPortCapacity(connection.source, sourcePort);
-    this.assertPortCapacity(connection.target, targetPort);
-    this.validatePortCompatibility(
-      { nodeId: connection.source.nodeId, port: sourcePort },
-      { nodeId: connection.target.nodeId, port: targetPort },
-    );
-
+    const { sourcePort, targetPort } = this.assertConnectionAllowed(connection);
     const stored = cloneConnection({
       ...connection,
       id,
       color: this.resolveConnectionColor(sourcePort, targetPort, connection.color),
     });
-    for (const existing of this.connections.values()) {
-      if (
-        existing.source.nodeId === stored.source.nodeId &&
-        existing.source.portId === stored.source.portId &&
-        existing.target.nodeId === stored.target.nodeId &&
-        existing.target.portId === stored.target.portId
-      ) {
-        throw new FlowGraphError(
-          'CONNECTION_EXISTS',
-          `Connection between ${stored.source.nodeId}:${stored.source.portId} -> ${stored.target.nodeId}:${stored.target.portId} already exists.`,
-        );
-      }
-    }
-
-    const loopback = stored.source.nodeId === stored.target.nodeId;
-    if (loopback && !((sourcePort.allowLoopback ?? false) || (targetPort.allowLoopback ?? false))) {
-      throw new FlowGraphError(
-        'INVALID_STATE',
-        `Loopback connection on node "${stored.source.nodeId}" requires allowLoopback to be enabled on at least one port.`,
-      );
-    }
 
     this.connections.set(id, stored);
-    this.emit('connection:add', stored);
+    this.emit('connection:add', stored, [{ kind: 'connection', id, after: stored }]);
     return cloneConnection(stored);
   }
 
@@ -444,38 +598,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     const nextPath = partial.path ? partial.path.map(point => ({ ...point })) : existing.path;
     const nextMetadata = partial.metadata ? { ...partial.metadata } : existing.metadata;
 
-    const sourceNode = this.getNodeOrThrow(nextSource.nodeId);
-    const targetNode = this.getNodeOrThrow(nextTarget.nodeId);
-    const sourcePort = this.getPortOrThrow(sourceNode, nextSource.portId);
-    const targetPort = this.getPortOrThrow(targetNode, nextTarget.portId);
-
-    if (sourcePort.direction !== 'output') {
-      throw new FlowGraphError(
-        'PORT_DIRECTION_MISMATCH',
-        `Source port "${sourcePort.id}" on node "${sourceNode.id}" is not an output port.`,
-      );
-    }
-    if (targetPort.direction !== 'input') {
-      throw new FlowGraphError(
-        'PORT_DIRECTION_MISMATCH',
-        `Target port "${targetPort.id}" on node "${targetNode.id}" is not an input port.`,
-      );
-    }
-
-    const loopback = nextSource.nodeId === nextTarget.nodeId;
-    if (loopback && !((sourcePort.allowLoopback ?? false) || (targetPort.allowLoopback ?? false))) {
-      throw new FlowGraphError(
-        'INVALID_STATE',
-        `Loopback connection on node "${nextSource.nodeId}" requires allowLoopback to be enabled on at least one port.`,
-      );
-    }
-
-    this.assertPortCapacity(nextSource, sourcePort, id);
-    this.assertPortCapacity(nextTarget, targetPort, id);
-    this.validatePortCompatibility(
-      { nodeId: nextSource.nodeId, port: sourcePort },
-      { nodeId: nextTarget.nodeId, port: targetPort },
-    );
+    const { sourcePort, targetPort } = this.assertConnectionAllowed({ source: nextSource, target: nextTarget }, id);
 
     const updated: GraphConnection = cloneConnection({
       ...existing,
@@ -487,23 +610,8 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
       color: this.resolveConnectionColor(sourcePort, targetPort, partial.color ?? existing.color),
     });
 
-    for (const entry of this.connections.values()) {
-      if (
-        entry.id !== id &&
-        entry.source.nodeId === updated.source.nodeId &&
-        entry.source.portId === updated.source.portId &&
-        entry.target.nodeId === updated.target.nodeId &&
-        entry.target.portId === updated.target.portId
-      ) {
-        throw new FlowGraphError(
-          'CONNECTION_EXISTS',
-          `Connection between ${updated.source.nodeId}:${updated.source.portId} -> ${updated.target.nodeId}:${updated.target.portId} already exists.`,
-        );
-      }
-    }
-
     this.connections.set(id, updated);
-    this.emit('connection:update', updated);
+    this.emit('connection:update', updated, [{ kind: 'connection', id, before: existing, after: updated }]);
     return cloneConnection(updated);
   }
 
@@ -513,7 +621,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
       throw new FlowGraphError('CONNECTION_NOT_FOUND', `Connection with id "${id}" not found.`);
     }
     this.connections.delete(id);
-    this.emit('connection:remove', connection);
+    this.emit('connection:remove', connection, [{ kind: 'connection', id, before: connection }]);
   }
 
   getConnection(id: string): GraphConnection | undefined {
@@ -521,6 +629,22 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     return connection ? cloneConnection(connection) : undefined;
   }
 
+  /**
+   * Reports whether `addConnection` would accept the connection, applying the same direction, capacity,
+   * type, colour, duplicate and cycle rules. Pass `excludeConnectionId` when rewiring an existing connection.
+   */
+  canConnect(connection: Pick<GraphConnection, 'source' | 'target'>, excludeConnectionId?: string): boolean {
+    try {
+      this.assertConnectionAllowed(connection, excludeConnectionId);
+      return true;
+    } catch (error) {
+      if (error instanceof FlowGraphError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   addGroup(group: GraphGroup): GraphGroup {
     if (this.groups.has(group.id)) {
       throw new FlowGraphError('GROUP_EXISTS', `Group with id "${group.id}" already exists.`);
@@ -528,7 +652,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     this.validateGroup(group);
     const stored = cloneGroup(group);
     this.groups.set(group.id, stored);
-    this.emit('group:add', stored);
+    this.emit('group:add', stored, [{ kind: 'group', id: group.id, after: stored }]);
     return cloneGroup(stored);
   }
 
@@ -548,7 +672,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     });
     this.validateGroup(updated);
     this.groups.set(id, updated);
-    this.emit('group:update', updated);
+    this.emit('group:update', updated, [{ kind: 'group', id, before: existing, after: updated }]);
     return cloneGroup(updated);
   }
 
@@ -557,60 +681,415 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     if (!group) {
       throw new FlowGraphError('GROUP_NOT_FOUND', `Group with id "${id}" not found.`);
     }
-    this.groups.delete(id);
+    const changes: GraphEntityChange<TNodeData>[] = [];
     for (const nodeId of group.nodeIds) {
       const node = this.nodes.get(nodeId);
       if (node && node.groupId === id) {
-        node.groupId = undefined;
-        this.emit('node:update', cloneNode(node));
+        const updated: GraphNode<TNodeData> = { ...node, groupId: undefined };
+        this.nodes.set(nodeId, updated);
+        changes.push({ kind: 'node', id: nodeId, before: node, after: updated });
       }
     }
-    this.emit('group:remove', cloneGroup(group));
+    this.groups.delete(id);
+    changes.push({ kind: 'group', id, before: group });
+    this.emit('group:remove', cloneGroup(group), changes);
   }
 
   assignNodeToGroup(nodeId: string, groupId: string | null): void {
     const node = this.getNodeOrThrow(nodeId);
     const previousGroupId = node.groupId ?? null;
-    let targetGroup: GraphGroup | undefined;
-    if (groupId !== null) {
-      targetGroup = this.getGroupOrThrow(groupId);
-      if (!targetGroup.nodeIds.includes(nodeId)) {
-        targetGroup.nodeIds.push(nodeId);
-      }
-    }
+    const changes: GraphEntityChange<TNodeData>[] = [];
+    const targetGroup = groupId !== null ? this.getGroupOrThrow(groupId) : undefined;
     if (previousGroupId && previousGroupId !== groupId) {
       const previousGroup = this.groups.get(previousGroupId);
       if (previousGroup) {
-        previousGroup.nodeIds = previousGroup.nodeIds.filter(id => id !== nodeId);
-        this.emit('group:update', cloneGroup(previousGroup));
+        const updated: GraphGroup = { ...previousGroup, nodeIds: previousGroup.nodeIds.filter(id => id !== nodeId) };
+        this.groups.set(previousGroupId, updated);
+        changes.push({ kind: 'group', id: previousGroupId, before: previousGroup, after: updated });
       }
     }
-    node.groupId = groupId ?? undefined;
-    if (targetGroup) {
-      this.emit('group:update', cloneGroup(targetGroup));
+    if (targetGroup && !targetGroup.nodeIds.includes(nodeId)) {
+      const updated: GraphGroup = { ...targetGroup, nodeIds: [...targetGroup.nodeIds, nodeId] };
+      this.groups.set(targetGroup.id, updated);
+      changes.push({ kind: 'group', id: targetGroup.id, before: targetGroup, after: updated });
     }
-    this.nodes.set(nodeId, node);
-    this.emit('node:update', cloneNode(node));
+    const updatedNode: GraphNode<TNodeData> = { ...node, groupId: groupId ?? undefined };
+    this.nodes.set(nodeId, updatedNode);
+    changes.push({ kind: 'node', id: nodeId, before: node, after: updatedNode });
+    this.emit('node:update', cloneNode(updatedNode), changes);
   }
 
   setViewport(position: Point, zoom: number): void {
+    const previous = this.viewport;
     this.viewport = { position: { ...position }, zoom };
-    this.emit('graph:metadata', { viewport: this.viewport });
+    this.emit('graph:metadata', { viewport: this.viewport }, [
+      { kind: 'viewport', id: 'viewport', before: previous, after: this.viewport },
+    ]);
   }
 
   setMetadata(metadata: Record<string, unknown> | undefined): void {
+    if (!this.cycleCheckDeferred && this.isAcyclic(metadata) && !this.isAcyclic()) {
+      this.assertNoCycles();
+    }
+    const previous = this.metadata;
     this.metadata = metadata ? { ...metadata } : undefined;
-    this.emit('graph:metadata', { metadata: this.metadata });
+    this.emit('graph:metadata', { metadata: this.metadata }, [
+      { kind: 'metadata', id: 'metadata', before: previous, after: this.metadata },
+    ]);
   }
 
-  importState(state: FlowGraphState<TNodeData>, notify = true): void {
+  /**
+   * Runs `fn` atomically. Listeners receive a single `'graph:batch'` event once `fn` returns; if it
+   * throws, every mutation made inside it is rolled back and the error is rethrown. Nested calls join
+   * the outer transaction but still roll back their own mutations on failure. `fn` must be synchronous.
+   */
+  transaction<TResult>(fn: (graph: this) => TResult): TResult {
+    const outer = this.activeTransaction;
+    const transaction: FlowGraphTransaction<TNodeData> = outer ?? { operations: [], changes: [] };
+    const operationCount = transaction.operations.length;
+    const changeCount = transaction.changes.length;
+    const snapshot = this.captureEntities();
+    this.activeTransaction = transaction;
+    let result: TResult;
+    try {
+      result = fn(this);
+    } catch (error) {
+      this.activeTransaction = outer;
+      transaction.operations.length = operationCount;
+      transaction.changes.length = changeCount;
+      this.restoreEntities(snapshot);
+      throw error;
+    }
+    this.activeTransaction = outer;
+    if (!outer && transaction.operations.length > 0) {
+      const payload: GraphBatchPayload = { operations: transaction.operations };
+      this.emit('graph:batch', payload, transaction.changes);
+    }
+    return result;
+  }
+
+  batch<TResult>(fn: (graph: this) => TResult): TResult {
+    return this.transaction(fn);
+  }
+
+  /**
+   * Applies an RFC 6902 patch whose paths address entities by id (see `diffStates`). Every operation
+   * goes through the same validation as the equivalent mutation method, and the patch is applied as a
+   * single transaction: if one operation fails, none of them are kept. Cycles are only checked once
+   * every operation is applied, so a patch may toggle `metadata.acyclic` before or after the
+   * connections it changes.
+   */
+  applyPatch(operations: JsonPatchOperation[]): void {
+    this.transaction(() => {
+      const deferred = this.cycleCheckDeferred;
+      this.cycleCheckDeferred = true;
+      try {
+        for (const operation of operations) {
+          this.applyPatchOperation(operation);
+        }
+      } finally {
+        this.cycleCheckDeferred = deferred;
+      }
+      if (!deferred && this.isAcyclic()) {
+        this.assertNoCycles();
+      }
+    });
+  }
+
+  /**
+   * Replays recorded entity changes without re-running validation. Changes are applied in order when
+   * `direction` is `'forward'` and reverted in reverse order when it is `'backward'`.
+   */
+  applyChanges(changes: GraphEntityChange<TNodeData>[], direction: 'forward' | 'backward' = 'forward'): void {
+    const ordered = direction === 'forward' ? changes : [...changes].reverse();
+    const applied: GraphEntityChange<TNodeData>[] = [];
+    for (const change of ordered) {
+      const entry = cloneChange(change);
+      const resolved = direction === 'forward' ? entry : invertChange(entry);
+      this.restoreEntity(resolved);
+      applied.push(resolved);
+    }
+    this.emit('graph:restore', { direction }, applied);
+  }
+
+  importState(state: FlowGraphState<TNodeData>, options: boolean | FlowGraphImportOptions = true): void {
+    const { notify = true, strict = false } = typeof options === 'boolean' ? { notify: options } : options;
     if (!state) {
       throw new FlowGraphError('INVALID_STATE', 'Cannot import empty graph state.');
     }
+    if (strict) {
+      const issues = validateState(state);
+      if (issues.length > 0) {
+        throw new FlowGraphValidationError(issues);
+      }
+    }
+    const previous = this.captureEntities();
+    try {
+      this.replaceEntities(state);
+    } catch (error) {
+      this.restoreEntities(previous);
+      throw error;
+    }
+    if (notify) {
+      const changes: GraphEntityChange<TNodeData>[] = [
+        ...diffEntities<TNodeData>('template', previous.templates, this.templates),
+        ...diffEntities<TNodeData>('node', previous.nodes, this.nodes),
+        ...diffEntities<TNodeData>('group', previous.groups, this.groups),
+        ...diffEntities<TNodeData>('connection', previous.connections, this.connections),
+      ];
+      if (previous.viewport !== this.viewport) {
+        changes.push({ kind: 'viewport', id: 'viewport', before: previous.viewport, after: this.viewport });
+      }
+      if (previous.metadata !== this.metadata) {
+        changes.push({ kind: 'metadata', id: 'metadata', before: previous.metadata, after: this.metadata });
+      }
+      this.emit('graph:import', this.getState(), changes);
+    }
+  }
+
+  /**
+   * Keeps `JSON.stringify(graph)` producing the bare state so it can be fed back into `initialState`
+   * or `importState`; use `serialize` for the versioned document.
+   */
+  toJSON(): FlowGraphState<TNodeData> {
+    return this.getState();
+  }
+
+  /** Wraps the current state in a versioned `{ format, version, state }` document for persistence. */
+  serialize(): FlowGraphDocument<TNodeData> {
+    return createGraphDocument(this.getState(), this.migrations.version);
+  }
+
+  /**
+   * Imports a document produced by `serialize` (or a legacy bare state), running registered
+   * migrations for older versions first.
+   */
+  importDocument(document: unknown, options: boolean | FlowGraphImportOptions = true): void {
+    const migrated = this.migrations.migrate<TNodeData>(document);
+    this.importState(migrated.state, options);
+  }
+
+  private emit(reason: GraphUpdateReason, payload?: unknown, changes: GraphEntityChange<TNodeData>[] = []): void {
+    if (this.activeTransaction) {
+      this.activeTransaction.operations.push({ reason, payload });
+      this.activeTransaction.changes.push(...changes);
+      return;
+    }
+    if (this.listeners.size === 0 && this.patchListeners.size === 0) {
+      return;
+    }
+    const clonedChanges = changes.map(cloneChange);
+    if (this.listeners.size > 0) {
+      const state = this.getState();
+      const event: GraphChangeEvent<TNodeData> = {
+        reason,
+        state,
+        payload,
+        changes: clonedChanges,
+      };
+      for (const listener of this.listeners) {
+        listener(event);
+      }
+    }
+    if (this.patchListeners.size > 0) {
+      const event: GraphPatchEvent<TNodeData> = {
+        reason,
+        payload,
+        patch: createGraphPatch(clonedChanges),
+        changes: clonedChanges,
+      };
+      for (const listener of this.patchListeners) {
+        listener(event);
+      }
+    }
+  }
+
+  private applyPatchOperation(operation: JsonPatchOperation): void {
+    switch (operation.op) {
+      case 'test': {
+        if (!jsonEquals(this.readPatchValue(operation.path), operation.value)) {
+          throw new FlowGraphError('INVALID_PATCH', `Test operation failed for "${operation.path}".`);
+        }
+        return;
+      }
+      case 'add':
+      case 'replace':
+        this.writePatchValue(operation.path, operation.op, cloneJsonValue(operation.value));
+        return;
+      case 'remove':
+        this.writePatchValue(operation.path, 'remove', undefined);
+        return;
+      case 'copy':
+        this.writePatchValue(operation.path, 'add', cloneJsonValue(this.readPatchValue(operation.from)));
+        return;
+      case 'move': {
+        const value = this.readPatchValue(operation.from);
+        this.writePatchValue(operation.from, 'remove', undefined);
+        this.writePatchValue(operation.path, 'add', value);
+        return;
+      }
+      default:
+        throw new FlowGraphError(
+          'INVALID_PATCH',
+          `Unsupported patch operation "${(operation as { op?: unknown }).op}".`,
+        );
+    }
+  }
+
+  private readPatchValue(path: string): unknown {
+    const target = parseGraphPatchPath(path);
+    return getJsonPointerValue(this.getPatchDocument(target, path), target.segments, path);
+  }
+
+  private getPatchDocument(target: GraphPatchTarget, path: string): unknown {
+    let current: unknown;
+    switch (target.root) {
+      case 'nodes':
+        current = this.nodes.get(target.id);
+        break;
+      case 'connections':
+        current = this.connections.get(target.id);
+        break;
+      case 'groups':
+        current = this.groups.get(target.id);
+        break;
+      case 'templates':
+        current = this.templates.get(target.id);
+        break;
+      case 'viewport':
+        current = this.viewport;
+        break;
+      case 'metadata':
+        current = this.metadata;
+        break;
+    }
+    if (current === undefined) {
+      throw new FlowGraphError('INVALID_PATCH', `Path "${path}" does not exist.`);
+    }
+    return cloneJsonValue(current);
+  }
+
+  private writePatchValue(path: string, op: 'add' | 'replace' | 'remove', value: unknown): void {
+    const target = parseGraphPatchPath(path);
+    let next: unknown;
+    if (target.segments.length === 0) {
+      if (op !== 'add') {
+        this.getPatchDocument(target, path);
+      }
+      if (op !== 'remove' && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+        throw new FlowGraphError('INVALID_PATCH', `Value at "${path}" must be an object.`);
+      }
+      next = op === 'remove' ? undefined : value;
+    } else {
+      next = this.getPatchDocument(target, path);
+      writeJsonPointerValue(next, target.segments, op, value, path);
+    }
+
+    switch (target.root) {
+      case 'viewport': {
+        const viewport = next as GraphViewport | undefined;
+        const previous = this.viewport;
+        this.viewport = viewport ? cloneViewport(viewport) : undefined;
+        this.emit('graph:metadata', { viewport: this.viewport }, [
+          { kind: 'viewport', id: 'viewport', before: previous, after: this.viewport },
+        ]);
+        return;
+      }
+      case 'metadata':
+        this.setMetadata(next as Record<string, unknown> | undefined);
+        return;
+      default:
+        this.commitPatchEntity(target.root, target.id, next as { id?: string } | undefined, path);
+    }
+  }
+
+  private commitPatchEntity(
+    root: 'nodes' | 'connections' | 'groups' | 'templates',
+    id: string,
+    next: { id?: string } | undefined,
+    path: string,
+  ): void {
+    if (next) {
+      next.id = next.id ?? id;
+      if (next.id !== id) {
+        throw new FlowGraphError('INVALID_PATCH', `Entity at "${path}" must keep the id "${id}".`);
+      }
+      if ((root === 'nodes' || root === 'templates') && !Array.isArray((next as { ports?: unknown }).ports)) {
+        throw new FlowGraphError('INVALID_PATCH', `Entity at "${path}" must define a ports array.`);
+      }
+    }
+    switch (root) {
+      case 'nodes': {
+        const existing = this.nodes.get(id);
+        const node = next as GraphNode<TNodeData> | undefined;
+        if (!node) {
+          this.removeNode(id);
+        } else if (!existing) {
+          this.addNode(node);
+        } else {
+          this.validateNode(node);
+          const stored = cloneNode(node);
+          this.nodes.set(id, stored);
+          this.emit('node:update', stored, [{ kind: 'node', id, before: existing, after: stored }]);
+        }
+        return;
+      }
+      case 'connections': {
+        const existing = this.connections.get(id);
+        const connection = next as GraphConnection | undefined;
+        if (!connection) {
+          this.removeConnection(id);
+        } else if (!existing) {
+          this.addConnection(connection);
+        } else {
+          const { sourcePort, targetPort } = this.assertConnectionAllowed(connection, id);
+          const stored = cloneConnection({
+            ...connection,
+            color: this.resolveConnectionColor(sourcePort, targetPort, connection.color),
+          });
+          this.connections.set(id, stored);
+          this.emit('connection:update', stored, [{ kind: 'connection', id, before: existing, after: stored }]);
+        }
+        return;
+      }
+      case 'groups': {
+        const existing = this.groups.get(id);
+        const group = next as GraphGroup | undefined;
+        if (!group) {
+          this.removeGroup(id);
+        } else if (!existing) {
+          this.addGroup(group);
+        } else {
+          this.validateGroup(group);
+          const stored = cloneGroup(group);
+          this.groups.set(id, stored);
+          this.emit('group:update', stored, [{ kind: 'group', id, before: existing, after: stored }]);
+        }
+        return;
+      }
+      case 'templates': {
+        const existing = this.templates.get(id);
+        const template = next as GraphNodeTemplate<TNodeData> | undefined;
+        if (!template) {
+          this.unregisterTemplate(id);
+        } else if (!existing) {
+          this.registerTemplate(template);
+        } else {
+          this.validateTemplate(template);
+          const stored = cloneTemplate(template);
+          this.templates.set(id, stored);
+          this.emit('template:update', cloneTemplate(stored), [{ kind: 'template', id, before: existing, after: stored }]);
+        }
+        return;
+      }
+    }
+  }
+
+  private replaceEntities(state: FlowGraphState<TNodeData>): void {
     if (state.templates !== undefined) {
       this.templates.clear();
       for (const template of state.templates) {
-        this.addTemplateInternal(template, notify);
+        this.addTemplateInternal(template, false);
       }
     }
 
@@ -669,27 +1148,74 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
       ? { position: { ...state.viewport.position }, zoom: state.viewport.zoom }
       : undefined;
     this.metadata = state.metadata ? { ...state.metadata } : undefined;
-    if (notify) {
-      this.emit('graph:import', this.getState());
+    if (this.isAcyclic()) {
+      this.assertNoCycles();
     }
   }
 
-  toJSON(): FlowGraphState<TNodeData> {
-    return this.getState();
+  // Stored entities are replaced rather than mutated, so copying the maps is enough to restore them.
+  private captureEntities(): FlowGraphEntitySnapshot<TNodeData> {
+    return {
+      nodes: new Map(this.nodes),
+      connections: new Map(this.connections),
+      groups: new Map(this.groups),
+      templates: new Map(this.templates),
+      viewport: this.viewport,
+      metadata: this.metadata,
+    };
   }
 
-  private emit(reason: GraphUpdateReason, payload?: unknown): void {
-    if (this.listeners.size === 0) {
-      return;
-    }
-    const state = this.getState();
-    const event: GraphChangeEvent<TNodeData> = {
-      reason,
-      state,
-      payload,
+  private restoreEntities(snapshot: FlowGraphEntitySnapshot<TNodeData>): void {
+    const restoreMap = <TEntity>(target: Map<string, TEntity>, source: Map<string, TEntity>): void => {
+      target.clear();
+      for (const [id, entity] of source) {
+        target.set(id, entity);
+      }
     };
-    for (const listener of this.listeners) {
-      listener(event);
+    restoreMap(this.nodes, snapshot.nodes);
+    restoreMap(this.connections, snapshot.connections);
+    restoreMap(this.groups, snapshot.groups);
+    restoreMap(this.templates, snapshot.templates);
+    this.viewport = snapshot.viewport;
+    this.metadata = snapshot.metadata;
+  }
+
+  private restoreEntity(change: GraphEntityChange<TNodeData>): void {
+    switch (change.kind) {
+      case 'node':
+        if (change.after) {
+          this.nodes.set(change.id, change.after);
+        } else {
+          this.nodes.delete(change.id);
+        }
+        return;
+      case 'connection':
+        if (change.after) {
+          this.connections.set(change.id, change.after);
+        } else {
+          this.connections.delete(change.id);
+        }
+        return;
+      case 'group':
+        if (change.after) {
+          this.groups.set(change.id, change.after);
+        } else {
+          this.groups.delete(change.id);
+        }
+        return;
+      case 'template':
+        if (change.after) {
+          this.templates.set(change.id, change.after);
+        } else {
+          this.templates.delete(change.id);
+        }
+        return;
+      case 'viewport':
+        this.viewport = change.after;
+        return;
+      case 'metadata':
+        this.metadata = change.after;
+        return;
     }
   }
 
@@ -704,7 +1230,7 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     const stored = cloneTemplate(template);
     this.templates.set(template.id, stored);
     if (notify) {
-      this.emit('template:add', cloneTemplate(stored));
+      this.emit('template:add', cloneTemplate(stored), [{ kind: 'template', id: template.id, after: stored }]);
     }
     return stored;
   }
@@ -717,6 +1243,17 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     return template;
   }
 
+  private moveNodesTo(positions: FlowGraphLayoutPositions): GraphNode<TNodeData>[] {
+    const changed = Object.entries(positions).filter(([id, position]) => {
+      const current = this.nodes.get(id)!.position;
+      return current.x !== position.x || current.y !== position.y;
+    });
+    if (changed.length === 0) {
+      return [];
+    }
+    return this.transaction(graph => changed.map(([id, position]) => graph.moveNode(id, position)));
+  }
+
   private getNodeOrThrow(id: string): GraphNode<TNodeData> {
     const node = this.nodes.get(id);
     if (!node) {
@@ -814,6 +1351,15 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     source: { nodeId: string; port: GraphPort },
     target: { nodeId: string; port: GraphPort },
   ): void {
+    const sourceType = source.port.dataType;
+    const targetType = target.port.dataType;
+    if (sourceType && targetType && !this.types.getCompatibility(sourceType, targetType)) {
+      throw new FlowGraphError(
+        'PORT_TYPE_MISMATCH',
+        `Type mismatch: ${source.nodeId}:${source.port.id} (${sourceType}) cannot connect to ${target.nodeId}:${target.port.id} (${targetType}).`,
+      );
+    }
+
     const sourceColor = source.port.color ?? null;
     const targetColor = target.port.color ?? null;
 
@@ -863,6 +1409,112 @@ export class FlowGraph<TNodeData extends Record<string, unknown> = Record<string
     return sourcePort.color ?? targetPort.color ?? requested;
   }
 
+  /**
+   * Applies the port rules shared by every code path that creates or rewires a connection: direction,
+   * loopback, capacity, data type and colour compatibility, duplicate endpoints and, for acyclic graphs, cycles.
+   */
+  private assertConnectionAllowed(
+    connection: Pick<GraphConnection, 'source' | 'target'>,
+    excludeConnectionId?: string,
+  ): { sourcePort: GraphPort; targetPort: GraphPort } {
+    const sourceNode = this.getNodeOrThrow(connection.source.nodeId);
+    const targetNode = this.getNodeOrThrow(connection.target.nodeId);
+    const sourcePort = this.getPortOrThrow(sourceNode, connection.source.portId);
+    const targetPort = this.getPortOrThrow(targetNode, connection.target.portId);
+
+    if (sourcePort.direction !== 'output') {
+      throw new FlowGraphError(
+        'PORT_DIRECTION_MISMATCH',
+        `Source port "${sourcePort.id}" on node "${sourceNode.id}" is not an output port.`,
+      );
+    }
+    if (targetPort.direction !== 'input') {
+      throw new FlowGraphError(
+        'PORT_DIRECTION_MISMATCH',
+        `Target port "${targetPort.id}" on node "${targetNode.id}" is not an input port.`,
+      );
+    }
+
+    const loopback = connection.source.nodeId === connection.target.nodeId;
+    if (loopback && !((sourcePort.allowLoopback ?? false) || (targetPort.allowLoopback ?? false))) {
+      throw new FlowGraphError(
+        'INVALID_STATE',
+        `Loopback connection on node "${connection.source.nodeId}" requires allowLoopback to be enabled on at least one port.`,
+      );
+    }
+
+    this.assertPortCapacity(connection.source, sourcePort, excludeConnectionId);
+    this.assertPortCapacity(connection.target, targetPort, excludeConnectionId);
+    this.validatePortCompatibility(
+      { nodeId: connection.source.nodeId, port: sourcePort },
+      { nodeId: connection.target.nodeId, port: targetPort },
+    );
+
+    for (const existing of this.connections.values()) {
+      if (
+        existing.id !== excludeConnectionId &&
+        existing.source.nodeId === connection.source.nodeId &&
+        existing.source.portId === connection.source.portId &&
+        existing.target.nodeId === connection.target.nodeId &&
+        existing.target.portId === connection.target.portId
+      ) {
+        throw new FlowGraphError(
+          'CONNECTION_EXISTS',
+          `Connection between ${connection.source.nodeId}:${connection.source.portId} -> ${connection.target.nodeId}:${connection.target.portId} already exists.`,
+        );
+      }
+    }
+
+    if (!this.cycleCheckDeferred && this.isAcyclic()) {
+      this.assertConnectionAcyclic(connection, excludeConnectionId);
+    }
+
+    return { sourcePort, targetPort };
+  }
+
+  private isAcyclic(metadata: Record<string, unknown> | undefined = this.metadata): boolean {
+    return typeof metadata?.acyclic === 'boolean' ? metadata.acyclic : this.acyclic;
+  }
+
+  private getTopology(excludeConnectionId?: string): GraphAlgorithmSource {
+    const connections = [...this.connections.values()];
+    return {
+      nodes: [...this.nodes.values()],
+      connections: excludeConnectionId
+        ? connections.filter(connection => connection.id !== excludeConnectionId)
+        : connections,
+    };
+  }
+
+  // A new edge source -> target closes a cycle exactly when target already reaches source.
+  private assertConnectionAcyclic(
+    connection: Pick<GraphConnection, 'source' | 'target'>,
+    excludeConnectionId?: string,
+  ): void {
+    const path = findShortestPath(
+      this.getTopology(excludeConnectionId),
+      connection.target.nodeId,
+      connection.source.nodeId,
+    );
+    if (path) {
+      throw new FlowGraphError(
+        'CYCLE_DETECTED',
+        `Connection ${connection.source.nodeId}:${connection.source.portId} -> ${connection.target.nodeId}:${connection.target.portId} would create a cycle: ${[...path.nodeIds, connection.target.nodeId].join(' → ')}.`,
+      );
+    }
+  }
+
+  private assertNoCycles(): void {
+    const [cycle] = findCycles(this.getTopology());
+    if (cycle) {
+      const nodeIds = cycle.map(id => this.connections.get(id)!.source.nodeId);
+      throw new FlowGraphError(
+        'CYCLE_DETECTED',
+        `Graph contains a cycle: ${[...nodeIds, nodeIds[0]].join(' → ')} (connections ${cycle.join(', ')}).`,
+      );
+    }
+  }
+
   private assertPortCapacity(address: PortAddress, port: GraphPort, excludeConnectionId?: string): void {
     if (port.maxConnections === undefined) {
       return;
@@ -0,0 +1,370 @@
+import { FlowGraphError } from './errors.js';
+import type { FlowGraphState, GraphConnection, GraphNode } from './types.js';
+
+type GraphTopology = Pick<FlowGraphState<unknown>, 'nodes' | 'connections'>;
+
+/** A `FlowGraph` or any state snapshot the algorithms can read nodes and connections from. */
+export type GraphAlgorithmSource = GraphTopology | { getState(): GraphTopology };
+
+export type GraphTraversalDirection = 'upstream' | 'downstream';
+
+export interface GraphReachabilityOptions {
+  /** Restricts the first step to connections attached to this port of the start node. */
+  portId?: string;
+  /** Follow connections towards targets (`downstream`, default) or towards sources (`upstream`). */
+  direction?: GraphTraversalDirection;
+}
+
+export interface GraphShortestPathOptions {
+  /** When false, connections may be walked against their direction. Defaults to true. */
+  directed?: boolean;
+}
+
+export interface GraphPath {
+  /** Visited node ids, starting with the source node and ending with the target node. */
+  nodeIds: string[];
+  /** Connection ids walked between consecutive nodes. */
+  connectionIds: string[];
+}
+
+interface GraphEdge {
+  connection: GraphConnection;
+  nodeId: string;
+}
+
+interface GraphAdjacency {
+  nodeIds: string[];
+  nodes: Map<string, GraphNode<unknown>>;
+  outgoing: Map<string, GraphEdge[]>;
+  incoming: Map<string, GraphEdge[]>;
+}
+
+const readSource = (source: GraphAlgorithmSource): GraphTopology =>
+  'getState' in source ? source.getState() : source;
+
+const buildAdjacency = (source: GraphAlgorithmSource): GraphAdjacency => {
+  const { nodes, connections } = readSource(source);
+  const adjacency: GraphAdjacency = {
+    nodeIds: [],
+    nodes: new Map(),
+    outgoing: new Map(),
+    incoming: new Map(),
+  };
+  nodes.forEach(node => {
+    adjacency.nodeIds.push(node.id);
+    adjacency.nodes.set(node.id, node);
+    adjacency.outgoing.set(node.id, []);
+    adjacency.incoming.set(node.id, []);
+  });
+  connections.forEach(connection => {
+    const outgoing = adjacency.outgoing.get(connection.source.nodeId);
+    const incoming = adjacency.incoming.get(connection.target.nodeId);
+    if (!outgoing || !incoming) {
+      return;
+    }
+    outgoing.push({ connection, nodeId: connection.target.nodeId });
+    incoming.push({ connection, nodeId: connection.source.nodeId });
+  });
+  return adjacency;
+};
+
+const assertNode = (adjacency: GraphAdjacency, nodeId: string): GraphNode<unknown> => {
+  const node = adjacency.nodes.get(nodeId);
+  if (!node) {
+    throw new FlowGraphError('NODE_NOT_FOUND', `Node "${nodeId}" does not exist.`);
+  }
+  return node;
+};
+
+const pushHeap = (heap: number[], value: number): void => {
+  heap.push(value);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent] <= value) {
+      break;
+    }
+    heap[index] = heap[parent];
+    index = parent;
+  }
+  heap[index] = value;
+};
+
+const popMin = (heap: number[]): number => {
+  const min = heap[0];
+  const last = heap.pop()!;
+  if (heap.length === 0) {
+    return min;
+  }
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    if (left >= heap.length) {
+      break;
+    }
+    const child = left + 1 < heap.length && heap[left + 1] < heap[left] ? left + 1 : left;
+    if (heap[child] >= last) {
+      break;
+    }
+    heap[index] = heap[child];
+    index = child;
+  }
+  heap[index] = last;
+  return min;
+};
+
+/**
+ * Orders node ids so that every connection points from an earlier node to a later one. Ties keep
+ * the order of `state.nodes`. Returns `null` when the graph contains a cycle; use `findCycles` to
+ * locate it.
+ */
+export const topologicalSort = (source: GraphAlgorithmSource): string[] | null => {
+  const adjacency = buildAdjacency(source);
+  const inDegree = new Map<string, number>();
+  adjacency.nodeIds.forEach(id => inDegree.set(id, adjacency.incoming.get(id)!.length));
+
+  // Ready nodes are kept as a min-heap of their index in `state.nodes`, so ties pop in that order.
+  const order: string[] = [];
+  const ready: number[] = [];
+  const rank = new Map(adjacency.nodeIds.map((id, index) => [id, index]));
+  adjacency.nodeIds.forEach((id, index) => {
+    if (inDegree.get(id) === 0) {
+      ready.push(index);
+    }
+  });
+  while (ready.length > 0) {
+    const nodeId = adjacency.nodeIds[popMin(ready)];
+    order.push(nodeId);
+    adjacency.outgoing.get(nodeId)!.forEach(edge => {
+      const remaining = inDegree.get(edge.nodeId)! - 1;
+      inDegree.set(edge.nodeId, remaining);
+      if (remaining === 0) {
+        pushHeap(ready, rank.get(edge.nodeId)!);
+      }
+    });
+  }
+  return order.length === adjacency.nodeIds.length ? order : null;
+};
+
+/**
+ * Tarjan's algorithm, written iteratively so deep pipelines do not overflow the call stack.
+ * Components are returned in reverse topological order of the condensed graph.
+ */
+const collectComponents = (adjacency: GraphAdjacency): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  adjacency.nodeIds.forEach(root => {
+    if (index.has(root)) {
+      return;
+    }
+    const frames: Array<{ nodeId: string; edge: number }> = [{ nodeId: root, edge: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter);
+    counter += 1;
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const edges = adjacency.outgoing.get(frame.nodeId)!;
+      if (frame.edge < edges.length) {
+        const next = edges[frame.edge].nodeId;
+        frame.edge += 1;
+        if (!index.has(next)) {
+          index.set(next, counter);
+          lowLink.set(next, counter);
+          counter += 1;
+          stack.push(next);
+          onStack.add(next);
+          frames.push({ nodeId: next, edge: 0 });
+        } else if (onStack.has(next)) {
+          lowLink.set(frame.nodeId, Math.min(lowLink.get(frame.nodeId)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].nodeId;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.nodeId)!));
+      }
+      if (lowLink.get(frame.nodeId) === index.get(frame.nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.nodeId);
+        components.push(component.reverse());
+      }
+    }
+  });
+
+  return components;
+};
+
+/** Groups node ids into strongly connected components. Acyclic nodes form singleton components. */
+export const getStronglyConnectedComponents = (source: GraphAlgorithmSource): string[][] =>
+  collectComponents(buildAdjacency(source));
+
+const searchPath = (
+  adjacency: GraphAdjacency,
+  fromNodeId: string,
+  toNodeId: string,
+  directed: boolean,
+  allowed?: Set<string>,
+): GraphPath | null => {
+  const previous = new Map<string, { nodeId: string; connectionId: string }>();
+  const visited = new Set<string>();
+  const queue = [fromNodeId];
+  let head = 0;
+  let found = false;
+
+  // A path back to the start node (a cycle) needs at least one step, so the start is only marked
+  // visited when it is not the target.
+  if (fromNodeId !== toNodeId) {
+    visited.add(fromNodeId);
+  }
+
+  while (head < queue.length && !found) {
+    const nodeId = queue[head];
+    head += 1;
+    const edges = directed
+      ? adjacency.outgoing.get(nodeId)!
+      : [...adjacency.outgoing.get(nodeId)!, ...adjacency.incoming.get(nodeId)!];
+    for (const edge of edges) {
+      if (visited.has(edge.nodeId) || (allowed && !allowed.has(edge.nodeId))) {
+        continue;
+      }
+      visited.add(edge.nodeId);
+      previous.set(edge.nodeId, { nodeId, connectionId: edge.connection.id });
+      if (edge.nodeId === toNodeId) {
+        found = true;
+        break;
+      }
+      queue.push(edge.nodeId);
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+  const nodeIds = [toNodeId];
+  const connectionIds: string[] = [];
+  let cursor = toNodeId;
+  do {
+    const step = previous.get(cursor)!;
+    connectionIds.push(step.connectionId);
+    nodeIds.push(step.nodeId);
+    cursor = step.nodeId;
+  } while (cursor !== fromNodeId);
+  return { nodeIds: nodeIds.reverse(), connectionIds: connectionIds.reverse() };
+};
+
+/**
+ * Returns one representative cycle per strongly connected component, each as the ids of the
+ * connections that close it. An empty array means the graph is acyclic.
+ */
+export const findCycles = (source: GraphAlgorithmSource): string[][] => {
+  const adjacency = buildAdjacency(source);
+  const cycles: string[][] = [];
+  collectComponents(adjacency)
+    .reverse()
+    .forEach(component => {
+      const [start] = component;
+      const members = new Set(component);
+      if (component.length === 1) {
+        const loop = adjacency.outgoing.get(start)!.find(edge => edge.nodeId === start);
+        if (loop) {
+          cycles.push([loop.connection.id]);
+        }
+        return;
+      }
+      const path = searchPath(adjacency, start, start, true, members);
+      if (path) {
+        cycles.push(path.connectionIds);
+      }
+    });
+  return cycles;
+};
+
+export const hasCycle = (source: GraphAlgorithmSource): boolean =>
+  topologicalSort(source) === null;
+
+/**
+ * Collects every node reachable from `nodeId`, in breadth-first order and excluding the start node
+ * unless it lies on a cycle.
+ */
+export const getReachableNodes = (
+  source: GraphAlgorithmSource,
+  nodeId: string,
+  options: GraphReachabilityOptions = {},
+): string[] => {
+  const adjacency = buildAdjacency(source);
+  const node = assertNode(adjacency, nodeId);
+  const direction = options.direction ?? 'downstream';
+  const edgesOf = (id: string) =>
+    direction === 'downstream' ? adjacency.outgoing.get(id)! : adjacency.incoming.get(id)!;
+
+  let firstEdges = edgesOf(nodeId);
+  if (options.portId !== undefined) {
+    const portId = options.portId;
+    if (!node.ports.some(port => port.id === portId)) {
+      throw new FlowGraphError('PORT_NOT_FOUND', `Port "${portId}" does not exist on node "${nodeId}".`);
+    }
+    firstEdges = firstEdges.filter(edge =>
+      direction === 'downstream'
+        ? edge.connection.source.portId === portId
+        : edge.connection.target.portId === portId,
+    );
+  }
+
+  const reached: string[] = [];
+  const visited = new Set<string>();
+  const queue: GraphEdge[][] = [firstEdges];
+  for (let head = 0; head < queue.length; head += 1) {
+    queue[head].forEach(edge => {
+      if (visited.has(edge.nodeId)) {
+        return;
+      }
+      visited.add(edge.nodeId);
+      reached.push(edge.nodeId);
+      queue.push(edgesOf(edge.nodeId));
+    });
+  }
+  return reached;
+};
+
+export const getDownstreamNodes = (
+  source: GraphAlgorithmSource,
+  nodeId: string,
+  portId?: string,
+): string[] => getReachableNodes(source, nodeId, { portId, direction: 'downstream' });
+
+export const getUpstreamNodes = (
+  source: GraphAlgorithmSource,
+  nodeId: string,
+  portId?: string,
+): string[] => getReachableNodes(source, nodeId, { portId, direction: 'upstream' });
+
+/** Finds a path with the fewest connections between two nodes, or `null` when none exists. */
+export const findShortestPath = (
+  source: GraphAlgorithmSource,
+  fromNodeId: string,
+  toNodeId: string,
+  options: GraphShortestPathOptions = {},
+): GraphPath | null => {
+  const adjacency = buildAdjacency(source);
+  assertNode(adjacency, fromNodeId);
+  assertNode(adjacency, toNodeId);
+  if (fromNodeId === toNodeId) {
+    return { nodeIds: [fromNodeId], connectionIds: [] };
+  }
+  return searchPath(adjacency, fromNodeId, toNodeId, options.directed ?? true);
+};
@@ -0,0 +1,155 @@
+import type { FlowGraph } from './flowGraph.js';
+import { compactChanges } from './patch.js';
+import type { GraphEntityChange, GraphPatchEvent, GraphUpdateReason } from './types.js';
+
+export interface FlowGraphHistoryOptions {
+  /** Maximum number of undo steps kept. Defaults to 100. */
+  limit?: number;
+}
+
+export interface FlowGraphHistoryEntry<TNodeData = Record<string, unknown>> {
+  /** Reason of the first mutation recorded in the entry. */
+  reason: GraphUpdateReason;
+  /** Optional label supplied through `beginGroup`. */
+  label?: string;
+  changes: GraphEntityChange<TNodeData>[];
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+export class FlowGraphHistory<TNodeData extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly undoStack: FlowGraphHistoryEntry<TNodeData>[] = [];
+  private readonly redoStack: FlowGraphHistoryEntry<TNodeData>[] = [];
+  private readonly limit: number;
+  private readonly unsubscribe: () => void;
+  private pendingGroup: FlowGraphHistoryEntry<TNodeData> | null = null;
+  private groupDepth = 0;
+  private groupLabel: string | undefined;
+  private applying = false;
+
+  constructor(private readonly graph: FlowGraph<TNodeData>, options: FlowGraphHistoryOptions = {}) {
+    this.limit = Math.max(1, options.limit ?? DEFAULT_HISTORY_LIMIT);
+    this.unsubscribe = graph.subscribe(event => this.record(event), { mode: 'patch' });
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get size(): number {
+    return this.undoStack.length;
+  }
+
+  /**
+   * Opens a group: every mutation recorded until the matching `endGroup` call becomes a single undo
+   * step. Groups may be nested; only the outermost call commits the entry.
+   */
+  beginGroup(label?: string): void {
+    if (this.groupDepth === 0) {
+      this.pendingGroup = null;
+      this.groupLabel = label;
+    }
+    this.groupDepth += 1;
+  }
+
+  endGroup(): void {
+    if (this.groupDepth === 0) {
+      return;
+    }
+    this.groupDepth -= 1;
+    if (this.groupDepth > 0) {
+      return;
+    }
+    const entry = this.pendingGroup;
+    this.pendingGroup = null;
+    this.groupLabel = undefined;
+    if (entry) {
+      this.push({ ...entry, changes: compactChanges(entry.changes) });
+    }
+  }
+
+  undo(): boolean {
+    this.flushGroup();
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return false;
+    }
+    this.replay(entry, 'backward');
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  redo(): boolean {
+    this.flushGroup();
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return false;
+    }
+    this.replay(entry, 'forward');
+    this.undoStack.push(entry);
+    return true;
+  }
+
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.pendingGroup = null;
+    this.groupDepth = 0;
+    this.groupLabel = undefined;
+  }
+
+  destroy(): void {
+    this.clear();
+    this.unsubscribe();
+  }
+
+  private record(event: GraphPatchEvent<TNodeData>): void {
+    if (this.applying) {
+      return;
+    }
+    const changes = event.changes.filter(change => change.kind !== 'viewport');
+    if (changes.length === 0) {
+      return;
+    }
+    if (this.groupDepth > 0) {
+      if (this.pendingGroup) {
+        this.pendingGroup.changes.push(...changes);
+      } else {
+        this.pendingGroup = { reason: event.reason, label: this.groupLabel, changes: [...changes] };
+      }
+      return;
+    }
+    this.push({ reason: event.reason, changes });
+  }
+
+  private push(entry: FlowGraphHistoryEntry<TNodeData>): void {
+    if (entry.changes.length === 0) {
+      return;
+    }
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack.length = 0;
+  }
+
+  private flushGroup(): void {
+    if (this.groupDepth > 0) {
+      this.groupDepth = 1;
+      this.endGroup();
+    }
+  }
+
+  private replay(entry: FlowGraphHistoryEntry<TNodeData>, direction: 'forward' | 'backward'): void {
+    this.applying = true;
+    try {
+      this.graph.applyChanges(entry.changes, direction);
+    } finally {
+      this.applying = false;
+    }
+  }
+}
@@ -1,4 +1,13 @@
 export * from './types.js';
 export * from './errors.js';
 export * from './flowGraph.js';
-export * from './navigator.js';
\ No newline at end of file
+export * from './navigator.js';
+export * from './history.js';
+export * from './patch.js';
+export * from './jsonPatch.js';
+export * from './serialization.js';
+export * from './validation.js';
+export * from './graphAlgorithms.js';
+export * from './dataTypes.js';
+export * from './clipboard.js';
+export * from './layout.js';
\ No newline at end of file
@@ -0,0 +1,260 @@
+import { FlowGraphError } from './errors.js';
+import type { FlowGraphState } from './types.js';
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export type GraphPatchCollection = 'nodes' | 'connections' | 'groups' | 'templates';
+
+/**
+ * A JSON Pointer resolved against `FlowGraphState`. Collections are addressed by entity id instead of
+ * array index, so `/nodes/gpt-call/position` targets the node with id `gpt-call`.
+ */
+export type GraphPatchTarget =
+  | { root: GraphPatchCollection; id: string; segments: string[] }
+  | { root: 'viewport' | 'metadata'; segments: string[] };
+
+const COLLECTIONS: GraphPatchCollection[] = ['nodes', 'connections', 'groups', 'templates'];
+
+export const escapePointerSegment = (segment: string): string => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const unescapePointerSegment = (segment: string): string => segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+export const formatGraphPatchPath = (...segments: string[]): string =>
+  segments.map(segment => `/${escapePointerSegment(segment)}`).join('');
+
+export const parseGraphPatchPath = (path: string): GraphPatchTarget => {
+  if (!path.startsWith('/')) {
+    throw new FlowGraphError('INVALID_PATCH', `Patch path "${path}" must start with "/".`);
+  }
+  const [root, ...rest] = path.slice(1).split('/').map(unescapePointerSegment);
+  if (root === 'viewport' || root === 'metadata') {
+    return { root, segments: rest };
+  }
+  if ((COLLECTIONS as string[]).includes(root)) {
+    const [id, ...segments] = rest;
+    if (!id) {
+      throw new FlowGraphError('INVALID_PATCH', `Patch path "${path}" must address an entity id.`);
+    }
+    return { root: root as GraphPatchCollection, id, segments };
+  }
+  throw new FlowGraphError('INVALID_PATCH', `Patch path "${path}" does not target a graph collection.`);
+};
+
+export const cloneJsonValue = <TValue>(value: TValue): TValue =>
+  value === undefined ? value : (JSON.parse(JSON.stringify(value)) as TValue);
+
+export const jsonEquals = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((entry, index) => jsonEquals(entry, b[index]));
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter(key => aRecord[key] !== undefined);
+  const bKeys = Object.keys(bRecord).filter(key => bRecord[key] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(key => jsonEquals(aRecord[key], bRecord[key]));
+};
+
+const resolveArrayIndex = (array: unknown[], segment: string, allowEnd: boolean, path: string): number => {
+  if (allowEnd && segment === '-') {
+    return array.length;
+  }
+  const index = /^(0|[1-9][0-9]*)$/.test(segment) ? Number(segment) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new FlowGraphError('INVALID_PATCH', `Invalid array index "${segment}" in "${path}".`);
+  }
+  return index;
+};
+
+const resolveParent = (document: unknown, segments: string[], path: string): unknown => {
+  let current = document;
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[resolveArrayIndex(current, segment, false, path)];
+    } else if (current && typeof current === 'object' && segment in current) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      throw new FlowGraphError('INVALID_PATCH', `Path "${path}" does not exist.`);
+    }
+  }
+  if (!current || typeof current !== 'object') {
+    throw new FlowGraphError('INVALID_PATCH', `Path "${path}" does not exist.`);
+  }
+  return current;
+};
+
+/** Reads the value at `segments` inside a plain JSON document. */
+export const getJsonPointerValue = (document: unknown, segments: string[], path: string): unknown => {
+  if (segments.length === 0) {
+    return document;
+  }
+  const parent = resolveParent(document, segments, path);
+  const key = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    return parent[resolveArrayIndex(parent, key, false, path)];
+  }
+  const record = parent as Record<string, unknown>;
+  if (record[key] === undefined) {
+    throw new FlowGraphError('INVALID_PATCH', `Path "${path}" does not exist.`);
+  }
+  return record[key];
+};
+
+/**
+ * Applies an `add`, `replace` or `remove` at `segments` inside a plain JSON document, mutating it in
+ * place. Callers are expected to pass a clone.
+ */
+export const writeJsonPointerValue = (
+  document: unknown,
+  segments: string[],
+  op: 'add' | 'replace' | 'remove',
+  value: unknown,
+  path: string,
+): void => {
+  const parent = resolveParent(document, segments, path);
+  const key = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    const index = resolveArrayIndex(parent, key, op === 'add', path);
+    if (op === 'add') {
+      parent.splice(index, 0, value);
+    } else if (op === 'replace') {
+      parent[index] = value;
+    } else {
+      parent.splice(index, 1);
+    }
+    return;
+  }
+  const record = parent as Record<string, unknown>;
+  if (op !== 'add' && record[key] === undefined) {
+    throw new FlowGraphError('INVALID_PATCH', `Path "${path}" does not exist.`);
+  }
+  if (op === 'remove') {
+    delete record[key];
+  } else {
+    record[key] = value;
+  }
+};
+
+const diffRecord = (
+  pathSegments: string[],
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): JsonPatchOperation[] => {
+  const operations: JsonPatchOperation[] = [];
+  for (const key of Object.keys(before)) {
+    if (before[key] !== undefined && after[key] === undefined) {
+      operations.push({ op: 'remove', path: formatGraphPatchPath(...pathSegments, key) });
+    }
+  }
+  for (const key of Object.keys(after)) {
+    if (after[key] === undefined) {
+      continue;
+    }
+    const path = formatGraphPatchPath(...pathSegments, key);
+    if (before[key] === undefined) {
+      operations.push({ op: 'add', path, value: cloneJsonValue(after[key]) });
+    } else if (!jsonEquals(before[key], after[key])) {
+      operations.push({ op: 'replace', path, value: cloneJsonValue(after[key]) });
+    }
+  }
+  return operations;
+};
+
+interface CollectionDiff {
+  added: JsonPatchOperation[];
+  removed: JsonPatchOperation[];
+  updated: JsonPatchOperation[];
+}
+
+const diffCollection = <TEntity extends { id: string }>(
+  collection: GraphPatchCollection,
+  before: TEntity[],
+  after: TEntity[],
+): CollectionDiff => {
+  const diff: CollectionDiff = { added: [], removed: [], updated: [] };
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const afterIds = new Set(after.map(entity => entity.id));
+  for (const entity of before) {
+    if (!afterIds.has(entity.id)) {
+      diff.removed.push({ op: 'remove', path: formatGraphPatchPath(collection, entity.id) });
+    }
+  }
+  for (const entity of after) {
+    const previous = beforeById.get(entity.id);
+    if (!previous) {
+      diff.added.push({ op: 'add', path: formatGraphPatchPath(collection, entity.id), value: cloneJsonValue(entity) });
+      continue;
+    }
+    diff.updated.push(
+      ...diffRecord(
+        [collection, entity.id],
+        previous as unknown as Record<string, unknown>,
+        entity as unknown as Record<string, unknown>,
+      ),
+    );
+  }
+  return diff;
+};
+
+/**
+ * Computes an RFC 6902 patch that turns `before` into `after`. Entities are addressed by id and diffed
+ * per top-level field. Operations are ordered so that replaying them through `FlowGraph.applyPatch`
+ * never references an entity that does not exist yet.
+ */
+export const diffStates = <TNodeData>(
+  before: FlowGraphState<TNodeData>,
+  after: FlowGraphState<TNodeData>,
+): JsonPatchOperation[] => {
+  const nodes = diffCollection('nodes', before.nodes ?? [], after.nodes ?? []);
+  const connections = diffCollection('connections', before.connections ?? [], after.connections ?? []);
+  const groups = diffCollection('groups', before.groups ?? [], after.groups ?? []);
+  const templates = diffCollection('templates', before.templates ?? [], after.templates ?? []);
+
+  const operations: JsonPatchOperation[] = [
+    ...connections.removed,
+    ...templates.added,
+    ...templates.updated,
+    ...nodes.updated,
+    ...nodes.removed,
+    ...groups.removed,
+    ...nodes.added,
+    ...groups.added,
+    ...groups.updated,
+    // Updates can move a connection off a port, freeing capacity that an added connection needs.
+    ...connections.updated,
+    ...connections.added,
+    ...templates.removed,
+  ];
+
+  if (!jsonEquals(before.viewport, after.viewport)) {
+    operations.push(
+      after.viewport
+        ? { op: before.viewport ? 'replace' : 'add', path: '/viewport', value: cloneJsonValue(after.viewport) }
+        : { op: 'remove', path: '/viewport' },
+    );
+  }
+
+  if (before.metadata && after.metadata) {
+    operations.push(...diffRecord(['metadata'], before.metadata, after.metadata));
+  } else if (after.metadata) {
+    operations.push({ op: 'add', path: '/metadata', value: cloneJsonValue(after.metadata) });
+  } else if (before.metadata) {
+    operations.push({ op: 'remove', path: '/metadata' });
+  }
+
+  return operations;
+};
@@ -0,0 +1,957 @@
+import { FlowGraphError } from './errors.js';
+import type { FlowGraph } from './flowGraph.js';
+import type { FlowGraphState, GraphConnection, GraphGroup, GraphNode, Point, Size } from './types.js';
+
+type LayoutTopology = Pick<FlowGraphState<unknown>, 'nodes' | 'connections'> &
+  Partial<Pick<FlowGraphState<unknown>, 'groups'>>;
+
+/** A `FlowGraph` or a state snapshot to lay out. */
+export type FlowGraphLayoutSource = LayoutTopology | { getState(): LayoutTopology };
+
+/** New top-left positions keyed by node id. */
+export type FlowGraphLayoutPositions = Record<string, Point>;
+
+export interface FlowGraphLayeredLayoutOptions {
+  /** Size of nodes without `size`. Defaults to 220×160, the renderer's default node size. */
+  nodeSize?: Size;
+  /** Resolves node sizes, e.g. from a renderer that grows nodes to fit their ports. Takes precedence over `nodeSize`. */
+  getNodeSize?(node: GraphNode<unknown>): Size;
+  /** Horizontal gap between layers. Defaults to 80. */
+  layerSpacing?: number;
+  /** Vertical gap between nodes of a layer. Defaults to 40. */
+  nodeSpacing?: number;
+  /** Extra vertical gap between nodes of different groups. Defaults to 48. */
+  groupSpacing?: number;
+  /** Vertical gap between disconnected parts of the graph. Defaults to 80. */
+  componentSpacing?: number;
+  /** Top-left corner of the laid-out graph. Defaults to `{ x: 0, y: 0 }`. */
+  origin?: Point;
+  /** Crossing-minimisation sweeps. Defaults to 8. */
+  iterations?: number;
+}
+
+interface LayoutVertex {
+  id: string;
+  node: GraphNode<unknown> | null;
+  size: Size;
+  groupId: string | null;
+  rank: number;
+  y: number;
+}
+
+/** An edge between adjacent layers; offsets are the port anchors measured from the vertex top. */
+interface LayoutEdge {
+  from: string;
+  to: string;
+  fromOffset: number;
+  toOffset: number;
+  /** Relative port order within the vertex, used to break ordering ties. */
+  fromFraction: number;
+  toFraction: number;
+}
+
+export type FlowGraphLayoutStrategyName = 'layered' | 'force' | 'grid' | 'radial';
+
+/** What a layout strategy receives: the nodes to place and the connections and groups among them. */
+export interface FlowGraphLayoutInput {
+  nodes: GraphNode<unknown>[];
+  connections: GraphConnection[];
+  groups: GraphGroup[];
+  sizeOf(node: GraphNode<unknown>): Size;
+}
+
+/** A custom strategy returns top-left positions for the nodes of `input`. */
+export type FlowGraphLayoutStrategy = (
+  input: FlowGraphLayoutInput,
+  options: FlowGraphLayoutOptions,
+) => FlowGraphLayoutPositions;
+
+export interface FlowGraphLayoutOptions extends FlowGraphLayeredLayoutOptions {
+  /** Built-in strategy name or a custom strategy. Defaults to `layered`. */
+  strategy?: FlowGraphLayoutStrategyName | FlowGraphLayoutStrategy;
+  /**
+   * Lays out only these nodes and the connections between them. Unless `origin` is set, the result
+   * keeps the selection's top-left corner, or the centre node's position for `radial`.
+   */
+  nodeIds?: Iterable<string>;
+  /** `layered`: crossing-minimisation sweeps (default 8). `force`: simulation steps (default 300). */
+  iterations?: number;
+  /** `grid`: number of columns. Defaults to a roughly square grid. */
+  columns?: number;
+  /** `radial`: node placed at the centre. Defaults to the first laid-out node. */
+  centerNodeId?: string;
+}
+
+const DEFAULT_NODE_SIZE: Size = { width: 220, height: 160 };
+const FORCE_GRAVITY = 0.1;
+
+const readSource = (source: FlowGraphLayoutSource): LayoutTopology =>
+  'getState' in source ? source.getState() : source;
+
+const resolveSizeOf =
+  (options: FlowGraphLayeredLayoutOptions) =>
+  (node: GraphNode<unknown>): Size =>
+    options.getNodeSize?.(node) ?? node.size ?? options.nodeSize ?? DEFAULT_NODE_SIZE;
+
+const getGroupMembership = (nodes: GraphNode<unknown>[], groups: GraphGroup[]): Map<string, string> => {
+  const groupOf = new Map<string, string>();
+  groups.forEach(group => group.nodeIds.forEach(nodeId => groupOf.set(nodeId, group.id)));
+  nodes.forEach(node => {
+    if (node.groupId) {
+      groupOf.set(node.id, node.groupId);
+    }
+  });
+  return groupOf;
+};
+
+/** Shifts positions so the top-left corner of their bounding box sits at `origin`. */
+const moveToOrigin = (positions: Map<string, Point>, origin: Point): FlowGraphLayoutPositions => {
+  const minX = minOf([...positions.values()].map(position => position.x));
+  const minY = minOf([...positions.values()].map(position => position.y));
+  const result: FlowGraphLayoutPositions = {};
+  positions.forEach((position, nodeId) => {
+    result[nodeId] = { x: Math.round(origin.x + position.x - minX), y: Math.round(origin.y + position.y - minY) };
+  });
+  return result;
+};
+
+const portFraction = (node: GraphNode<unknown>, portId: string): number => {
+  const port = node.ports.find(candidate => candidate.id === portId);
+  const siblings = node.ports.filter(candidate => candidate.direction === port?.direction);
+  return (siblings.findIndex(candidate => candidate.id === portId) + 1) / (siblings.length + 1);
+};
+
+/** `Math.min` without spreading, which overflows the call stack on large graphs. */
+const minOf = (values: Iterable<number>): number => {
+  let min = Infinity;
+  for (const value of values) {
+    min = value < min ? value : min;
+  }
+  return min;
+};
+
+const maxOf = (values: Iterable<number>): number => {
+  let max = -Infinity;
+  for (const value of values) {
+    max = value > max ? value : max;
+  }
+  return max;
+};
+
+const pushTo = <TKey, TValue>(map: Map<TKey, TValue[]>, key: TKey, value: TValue): void => {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+};
+
+/** Weakly connected components, each listing node ids in state order. */
+const getComponents = (nodes: GraphNode<unknown>[], connections: GraphConnection[]): string[][] => {
+  const parent = new Map(nodes.map(node => [node.id, node.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+  connections.forEach(connection => parent.set(find(connection.source.nodeId), find(connection.target.nodeId)));
+
+  const components = new Map<string, string[]>();
+  nodes.forEach(node => {
+    const root = find(node.id);
+    pushTo(components, root, node.id);
+  });
+  return [...components.values()];
+};
+
+/**
+ * Ids of the connections that close a cycle, found by a depth-first search in state order.
+ * Reversing them makes the component acyclic.
+ */
+const findBackEdges = (nodeIds: string[], connections: GraphConnection[]): Set<string> => {
+  const outgoing = new Map<string, GraphConnection[]>(nodeIds.map(id => [id, []]));
+  connections.forEach(connection => outgoing.get(connection.source.nodeId)?.push(connection));
+
+  const backEdges = new Set<string>();
+  const state = new Map<string, 'active' | 'done'>();
+  for (const startId of nodeIds) {
+    if (state.has(startId)) {
+      continue;
+    }
+    const stack: Array<{ nodeId: string; index: number }> = [{ nodeId: startId, index: 0 }];
+    state.set(startId, 'active');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edge = outgoing.get(frame.nodeId)![frame.index++];
+      if (!edge) {
+        state.set(frame.nodeId, 'done');
+        stack.pop();
+        continue;
+      }
+      const next = edge.target.nodeId;
+      if (state.get(next) === 'active') {
+        backEdges.add(edge.id);
+      } else if (!state.has(next)) {
+        state.set(next, 'active');
+        stack.push({ nodeId: next, index: 0 });
+      }
+    }
+  }
+  return backEdges;
+};
+
+/** Longest-path ranking; sources are then pulled right to sit just before their nearest successor. */
+const assignRanks = (nodeIds: string[], edges: Array<{ from: string; to: string }>): Map<string, number> => {
+  const incoming = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  const outgoing = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(edge => {
+    outgoing.get(edge.from)!.push(edge.to);
+    incoming.get(edge.to)!.push(edge.from);
+  });
+
+  const remaining = new Map(nodeIds.map(id => [id, incoming.get(id)!.length]));
+  // The topological order doubles as the queue, which avoids the O(n) cost of `shift()`.
+  const order = nodeIds.filter(id => remaining.get(id) === 0);
+  const ranks = new Map<string, number>(nodeIds.map(id => [id, 0]));
+  for (let head = 0; head < order.length; head += 1) {
+    const id = order[head];
+    for (const next of outgoing.get(id)!) {
+      ranks.set(next, Math.max(ranks.get(next)!, ranks.get(id)! + 1));
+      remaining.set(next, remaining.get(next)! - 1);
+      if (remaining.get(next) === 0) {
+        order.push(next);
+      }
+    }
+  }
+
+  for (const id of order.reverse()) {
+    const successors = outgoing.get(id)!;
+    if (incoming.get(id)!.length === 0 && successors.length > 0) {
+      ranks.set(id, minOf(successors.map(next => ranks.get(next)!)) - 1);
+    }
+  }
+  return ranks;
+};
+
+/** Number of pairs `i < j` with `values[i] > values[j]`, counted while merge-sorting a copy. */
+const countInversions = (values: number[]): number => {
+  let items = [...values];
+  let buffer = new Array<number>(items.length);
+  let inversions = 0;
+  for (let width = 1; width < items.length; width *= 2) {
+    for (let start = 0; start < items.length; start += width * 2) {
+      const middle = Math.min(start + width, items.length);
+      const end = Math.min(start + width * 2, items.length);
+      let left = start;
+      let right = middle;
+      let out = start;
+      while (left < middle && right < end) {
+        if (items[right] < items[left]) {
+          inversions += middle - left;
+          buffer[out++] = items[right++];
+        } else {
+          buffer[out++] = items[left++];
+        }
+      }
+      while (left < middle) {
+        buffer[out++] = items[left++];
+      }
+      while (right < end) {
+        buffer[out++] = items[right++];
+      }
+    }
+    [items, buffer] = [buffer, items];
+  }
+  return inversions;
+};
+
+/**
+ * Crossings between two adjacent layers. Sorting the segments by their upper end turns every
+ * crossing into an inversion of the lower ends, so this runs in O(m log m) for m segments.
+ */
+const countCrossings = (upper: string[], lower: string[], outgoing: Map<string, LayoutEdge[]>): number => {
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const segments: Array<[number, number]> = [];
+  upper.forEach((id, index) => {
+    for (const edge of outgoing.get(id) ?? []) {
+      const target = lowerIndex.get(edge.to);
+      if (target !== undefined) {
+        segments.push([index + edge.fromFraction, target + edge.toFraction]);
+      }
+    }
+  });
+  segments.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  return countInversions(segments.map(segment => segment[1]));
+};
+
+/**
+ * Reorders `layer` by the barycenter of its neighbours in `reference`. Members of a group are kept
+ * together by sorting on the group's mean barycenter first.
+ */
+const orderByBarycenter = (
+  layer: string[],
+  reference: string[],
+  neighbours: Map<string, Array<{ id: string; fraction: number }>>,
+  vertices: Map<string, LayoutVertex>,
+): string[] => {
+  const referenceIndex = new Map(reference.map((id, index) => [id, index]));
+  const barycenters = new Map<string, number>();
+  layer.forEach((id, index) => {
+    const values = (neighbours.get(id) ?? [])
+      .filter(neighbour => referenceIndex.has(neighbour.id))
+      .map(neighbour => referenceIndex.get(neighbour.id)! + neighbour.fraction);
+    barycenters.set(id, values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : index);
+  });
+
+  const groupTotals = new Map<string, { sum: number; count: number }>();
+  layer.forEach(id => {
+    const groupId = vertices.get(id)!.groupId;
+    if (groupId !== null) {
+      const total = groupTotals.get(groupId) ?? { sum: 0, count: 0 };
+      total.sum += barycenters.get(id)!;
+      total.count += 1;
+      groupTotals.set(groupId, total);
+    }
+  });
+  const groupKey = (id: string) => {
+    const groupId = vertices.get(id)!.groupId;
+    const total = groupId === null ? undefined : groupTotals.get(groupId);
+    return total ? total.sum / total.count : barycenters.get(id)!;
+  };
+
+  return layer
+    .map((id, index) => ({ id, index, group: groupKey(id), own: barycenters.get(id)! }))
+    .sort((a, b) => a.group - b.group || a.own - b.own || a.index - b.index)
+    .map(entry => entry.id);
+};
+
+/**
+ * Places a layer as close as possible to the desired tops while keeping `gaps[i]` between
+ * consecutive vertices: a downward and an upward packing pass are averaged.
+ */
+const packLayer = (layer: LayoutVertex[], desired: number[], gaps: number[]): void => {
+  const forward = [...desired];
+  for (let index = 1; index < layer.length; index += 1) {
+    forward[index] = Math.max(desired[index], forward[index - 1] + layer[index - 1].size.height + gaps[index - 1]);
+  }
+  const backward = [...desired];
+  for (let index = layer.length - 2; index >= 0; index -= 1) {
+    backward[index] = Math.min(desired[index], backward[index + 1] - layer[index].size.height - gaps[index]);
+  }
+  layer.forEach((vertex, index) => {
+    vertex.y = (forward[index] + backward[index]) / 2;
+  });
+};
+
+const layoutComponent = (
+  nodes: GraphNode<unknown>[],
+  connections: GraphConnection[],
+  groupOf: Map<string, string>,
+  options: Required<Omit<FlowGraphLayeredLayoutOptions, 'getNodeSize' | 'nodeSize' | 'origin'>> & {
+    sizeOf: (node: GraphNode<unknown>) => Size;
+  },
+): { positions: Map<string, Point>; height: number } => {
+  const nodeIds = nodes.map(node => node.id);
+  const backEdges = findBackEdges(nodeIds, connections);
+  const directed = connections.map(connection => {
+    const reversed = backEdges.has(connection.id);
+    return {
+      connection,
+      from: reversed ? connection.target : connection.source,
+      to: reversed ? connection.source : connection.target,
+    };
+  });
+  const ranks = assignRanks(
+    nodeIds,
+    directed.map(edge => ({ from: edge.from.nodeId, to: edge.to.nodeId })),
+  );
+
+  const vertices = new Map<string, LayoutVertex>();
+  nodes.forEach(node =>
+    vertices.set(node.id, {
+      id: node.id,
+      node,
+      size: options.sizeOf(node),
+      groupId: groupOf.get(node.id) ?? null,
+      rank: ranks.get(node.id)!,
+      y: 0,
+    }),
+  );
+
+  // Split edges spanning several layers with zero-size dummy vertices so every edge joins adjacent layers.
+  const edges: LayoutEdge[] = [];
+  directed.forEach(({ connection, from, to }, edgeIndex) => {
+    const source = vertices.get(from.nodeId)!;
+    const target = vertices.get(to.nodeId)!;
+    const fromFraction = portFraction(source.node!, from.portId);
+    const toFraction = portFraction(target.node!, to.portId);
+    let previous = { id: source.id, offset: fromFraction * source.size.height, fraction: fromFraction };
+    for (let rank = source.rank + 1; rank < target.rank; rank += 1) {
+      const id = `\u0000${connection.id}:${edgeIndex}:${rank}`;
+      vertices.set(id, { id, node: null, size: { width: 0, height: 0 }, groupId: null, rank, y: 0 });
+      edges.push({
+        from: previous.id,
+        to: id,
+        fromOffset: previous.offset,
+        toOffset: 0,
+        fromFraction: previous.fraction,
+        toFraction: 0,
+      });
+      previous = { id, offset: 0, fraction: 0 };
+    }
+    edges.push({
+      from: previous.id,
+      to: target.id,
+      fromOffset: previous.offset,
+      toOffset: toFraction * target.size.height,
+      fromFraction: previous.fraction,
+      toFraction,
+    });
+  });
+
+  const minRank = minOf([...vertices.values()].map(vertex => vertex.rank));
+  let layers: string[][] = [];
+  vertices.forEach(vertex => {
+    const rank = vertex.rank - minRank;
+    (layers[rank] ??= []).push(vertex.id);
+  });
+  layers = Array.from(layers, layer => layer ?? []);
+
+  const upstream = new Map<string, Array<{ id: string; fraction: number }>>();
+  const downstream = new Map<string, Array<{ id: string; fraction: number }>>();
+  const incomingEdges = new Map<string, LayoutEdge[]>();
+  const outgoingEdges = new Map<string, LayoutEdge[]>();
+  edges.forEach(edge => {
+    pushTo(upstream, edge.to, { id: edge.from, fraction: edge.fromFraction });
+    pushTo(downstream, edge.from, { id: edge.to, fraction: edge.toFraction });
+    pushTo(incomingEdges, edge.to, edge);
+    pushTo(outgoingEdges, edge.from, edge);
+  });
+
+  const totalCrossings = (candidate: string[][]) =>
+    candidate.slice(1).reduce((sum, layer, index) => sum + countCrossings(candidate[index], layer, outgoingEdges), 0);
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = totalCrossings(best);
+  for (let iteration = 0; iteration < options.iterations && bestCrossings > 0; iteration += 1) {
+    for (let index = 1; index < layers.length; index += 1) {
+      layers[index] = orderByBarycenter(layers[index], layers[index - 1], upstream, vertices);
+    }
+    for (let index = layers.length - 2; index >= 0; index -= 1) {
+      layers[index] = orderByBarycenter(layers[index], layers[index + 1], downstream, vertices);
+    }
+    const crossings = totalCrossings(layers);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  // Vertical placement: stack every layer, then align vertices with the ports they connect to.
+  const layerVertices = best.map(layer => layer.map(id => vertices.get(id)!));
+  const gapsOf = (layer: LayoutVertex[]) =>
+    layer.slice(1).map((vertex, index) => {
+      const previous = layer[index];
+      if (!vertex.node || !previous.node) {
+        return options.nodeSpacing / 2;
+      }
+      return vertex.groupId !== previous.groupId ? options.nodeSpacing + options.groupSpacing : options.nodeSpacing;
+    });
+  layerVertices.forEach(layer => packLayer(layer, layer.map(() => 0), gapsOf(layer)));
+
+  const align = (layer: LayoutVertex[], direction: 'down' | 'up') => {
+    const desired = layer.map(vertex => {
+      const targets =
+        direction === 'down'
+          ? (incomingEdges.get(vertex.id) ?? []).map(edge => vertices.get(edge.from)!.y + edge.fromOffset - edge.toOffset)
+          : (outgoingEdges.get(vertex.id) ?? []).map(edge => vertices.get(edge.to)!.y + edge.toOffset - edge.fromOffset);
+      return targets.length > 0 ? targets.reduce((sum, value) => sum + value, 0) / targets.length : vertex.y;
+    });
+    packLayer(layer, desired, gapsOf(layer));
+  };
+  for (let pass = 0; pass < 4; pass += 1) {
+    layerVertices.slice(1).forEach(layer => align(layer, 'down'));
+    layerVertices.slice(0, -1).reverse().forEach(layer => align(layer, 'up'));
+  }
+
+  let x = 0;
+  const positions = new Map<string, Point>();
+  let minY = Infinity;
+  let maxY = -Infinity;
+  layerVertices.forEach(layer => {
+    const width = Math.max(0, maxOf(layer.map(vertex => vertex.size.width)));
+    layer.forEach(vertex => {
+      if (vertex.node) {
+        positions.set(vertex.id, { x, y: vertex.y });
+      }
+      minY = Math.min(minY, vertex.y);
+      maxY = Math.max(maxY, vertex.y + vertex.size.height);
+    });
+    x += width + options.layerSpacing;
+  });
+  positions.forEach(position => {
+    position.y -= minY;
+  });
+  return { positions, height: maxY - minY };
+};
+
+/**
+ * Computes a left-to-right layered (Sugiyama-style) layout: cycles are broken, nodes are ranked into
+ * layers, layers are reordered to reduce crossings while keeping port order and groups together, and
+ * nodes are aligned with the ports they connect to. Disconnected parts are stacked vertically.
+ */
+export const computeLayeredLayout = (
+  source: FlowGraphLayoutSource,
+  options: FlowGraphLayeredLayoutOptions = {},
+): FlowGraphLayoutPositions => {
+  const { nodes, connections, groups = [] } = readSource(source);
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = connections.filter(
+    connection =>
+      nodeIds.has(connection.source.nodeId) &&
+      nodeIds.has(connection.target.nodeId) &&
+      connection.source.nodeId !== connection.target.nodeId,
+  );
+  const groupOf = getGroupMembership(nodes, groups);
+  const settings = {
+    layerSpacing: options.layerSpacing ?? 80,
+    nodeSpacing: options.nodeSpacing ?? 40,
+    groupSpacing: options.groupSpacing ?? 48,
+    componentSpacing: options.componentSpacing ?? 80,
+    iterations: options.iterations ?? 8,
+    sizeOf: resolveSizeOf(options),
+  };
+  const origin = options.origin ?? { x: 0, y: 0 };
+  const nodeLookup = new Map(nodes.map(node => [node.id, node]));
+
+  const positions: FlowGraphLayoutPositions = {};
+  let top = origin.y;
+  for (const componentIds of getComponents(nodes, edges)) {
+    const members = new Set(componentIds);
+    const layout = layoutComponent(
+      componentIds.map(id => nodeLookup.get(id)!),
+      edges.filter(connection => members.has(connection.source.nodeId)),
+      groupOf,
+      settings,
+    );
+    layout.positions.forEach((position, nodeId) => {
+      positions[nodeId] = { x: Math.round(origin.x + position.x), y: Math.round(top + position.y) };
+    });
+    top += layout.height + settings.componentSpacing;
+  }
+  return positions;
+};
+
+/**
+ * Force-directed placement for loosely structured graphs: nodes repel each other, connections pull
+ * their ends together and a final pass removes overlaps. Nodes start from their current positions,
+ * so the result is deterministic and re-running it refines the previous layout.
+ */
+const forceLayout: FlowGraphLayoutStrategy = ({ nodes, connections, sizeOf }, options) => {
+  if (nodes.length === 0) {
+    return {};
+  }
+  const sizes = nodes.map(node => sizeOf(node));
+  const radii = sizes.map(size => Math.hypot(size.width, size.height) / 2);
+  const spacing = options.nodeSpacing ?? 40;
+  const ideal = (options.layerSpacing ?? 80) + (2 * radii.reduce((sum, radius) => sum + radius, 0)) / radii.length;
+  const index = new Map(nodes.map((node, position) => [node.id, position]));
+  const edges = connections
+    .map(connection => [index.get(connection.source.nodeId), index.get(connection.target.nodeId)])
+    .filter((edge): edge is [number, number] => edge[0] !== undefined && edge[1] !== undefined && edge[0] !== edge[1]);
+
+  // Nodes sharing a position, e.g. freshly imported ones at the origin, fan out on a spiral.
+  const xs = nodes.map((node, position) => node.position.x + sizes[position].width / 2);
+  const ys = nodes.map((node, position) => node.position.y + sizes[position].height / 2);
+  const seen = new Map<string, number>();
+  nodes.forEach((node, position) => {
+    const key = `${node.position.x},${node.position.y}`;
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+    if (count > 0) {
+      const angle = count * 2.399963;
+      xs[position] += Math.cos(angle) * ideal * Math.sqrt(count);
+      ys[position] += Math.sin(angle) * ideal * Math.sqrt(count);
+    }
+  });
+
+  const steps = options.iterations ?? 300;
+  for (let step = 0; step < steps; step += 1) {
+    const temperature = ideal * (1 - step / steps);
+    const dx = new Array<number>(nodes.length).fill(0);
+    const dy = new Array<number>(nodes.length).fill(0);
+    for (let i = 0; i < nodes.length; i += 1) {
+      for (let j = i + 1; j < nodes.length; j += 1) {
+        let vx = xs[i] - xs[j];
+        let vy = ys[i] - ys[j];
+        let distance = Math.hypot(vx, vy);
+        if (distance < 0.01) {
+          vx = i - j;
+          vy = 1;
+          distance = Math.hypot(vx, vy);
+        }
+        const gap = Math.max(distance - radii[i] - radii[j], 1);
+        const force = (ideal * ideal) / gap / distance;
+        dx[i] += vx * force;
+        dy[i] += vy * force;
+        dx[j] -= vx * force;
+        dy[j] -= vy * force;
+      }
+    }
+    edges.forEach(([a, b]) => {
+      const vx = xs[a] - xs[b];
+      const vy = ys[a] - ys[b];
+      const force = Math.hypot(vx, vy) / ideal;
+      dx[a] -= vx * force;
+      dy[a] -= vy * force;
+      dx[b] += vx * force;
+      dy[b] += vy * force;
+    });
+    // Weak gravity towards the centroid keeps disconnected parts from drifting apart.
+    const cx = xs.reduce((sum, x) => sum + x, 0) / nodes.length;
+    const cy = ys.reduce((sum, y) => sum + y, 0) / nodes.length;
+    for (let i = 0; i < nodes.length; i += 1) {
+      const vx = xs[i] - cx;
+      const vy = ys[i] - cy;
+      const force = (FORCE_GRAVITY * Math.hypot(vx, vy)) / ideal;
+      dx[i] -= vx * force;
+      dy[i] -= vy * force;
+    }
+    for (let i = 0; i < nodes.length; i += 1) {
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        xs[i] += (dx[i] / length) * Math.min(length, temperature);
+        ys[i] += (dy[i] / length) * Math.min(length, temperature);
+      }
+    }
+  }
+
+  for (let pass = 0; pass < 50; pass += 1) {
+    let moved = false;
+    for (let i = 0; i < nodes.length; i += 1) {
+      for (let j = i + 1; j < nodes.length; j += 1) {
+        const overlapX = (sizes[i].width + sizes[j].width) / 2 + spacing - Math.abs(xs[i] - xs[j]);
+        const overlapY = (sizes[i].height + sizes[j].height) / 2 + spacing - Math.abs(ys[i] - ys[j]);
+        if (overlapX <= 0 || overlapY <= 0) {
+          continue;
+        }
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (xs[i] < xs[j] || (xs[i] === xs[j] && i < j) ? -1 : 1);
+          xs[i] += shift;
+          xs[j] -= shift;
+        } else {
+          const shift = (overlapY / 2) * (ys[i] < ys[j] || (ys[i] === ys[j] && i < j) ? -1 : 1);
+          ys[i] += shift;
+          ys[j] -= shift;
+        }
+      }
+    }
+    if (!moved) {
+      break;
+    }
+  }
+
+  const positions = new Map(
+    nodes.map((node, i) => [node.id, { x: xs[i] - sizes[i].width / 2, y: ys[i] - sizes[i].height / 2 }]),
+  );
+  return moveToOrigin(positions, options.origin ?? { x: 0, y: 0 });
+};
+
+/** Packs nodes row by row into a grid, keeping group members next to each other. */
+const gridLayout: FlowGraphLayoutStrategy = ({ nodes, groups, sizeOf }, options) => {
+  const groupOf = getGroupMembership(nodes, groups);
+  const firstIndex = new Map<string, number>();
+  nodes.forEach((node, index) => {
+    const groupId = groupOf.get(node.id);
+    if (groupId !== undefined && !firstIndex.has(groupId)) {
+      firstIndex.set(groupId, index);
+    }
+  });
+  const ordered = nodes
+    .map((node, index) => {
+      const groupId = groupOf.get(node.id);
+      return { node, index, key: groupId === undefined ? index : firstIndex.get(groupId)! };
+    })
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(entry => entry.node);
+
+  const columns = Math.max(1, Math.floor(options.columns ?? Math.ceil(Math.sqrt(ordered.length))));
+  const spacing = options.nodeSpacing ?? 40;
+  const widths: number[] = [];
+  const heights: number[] = [];
+  ordered.forEach((node, index) => {
+    const size = sizeOf(node);
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    widths[column] = Math.max(widths[column] ?? 0, size.width);
+    heights[row] = Math.max(heights[row] ?? 0, size.height);
+  });
+  const offsets = (values: number[]) =>
+    values.reduce<number[]>((result, _value, index) => {
+      result.push(index === 0 ? 0 : result[index - 1] + values[index - 1] + spacing);
+      return result;
+    }, []);
+  const columnX = offsets(widths);
+  const rowY = offsets(heights);
+  const origin = options.origin ?? { x: 0, y: 0 };
+
+  const positions: FlowGraphLayoutPositions = {};
+  ordered.forEach((node, index) => {
+    positions[node.id] = {
+      x: origin.x + columnX[index % columns],
+      y: origin.y + rowY[Math.floor(index / columns)],
+    };
+  });
+  return positions;
+};
+
+/**
+ * Places `centerNodeId` in the middle and every other node on rings by connection distance,
+ * ignoring direction. Each subtree gets an angular wedge sized by its leaf count; nodes that cannot be
+ * reached are treated as extra children of the centre.
+ */
+const radialLayout: FlowGraphLayoutStrategy = ({ nodes, connections, sizeOf }, options) => {
+  if (nodes.length === 0) {
+    return {};
+  }
+  const centerId = options.centerNodeId ?? nodes[0].id;
+  if (!nodes.some(node => node.id === centerId)) {
+    throw new FlowGraphError('NODE_NOT_FOUND', `Node with id "${centerId}" not found.`);
+  }
+  const neighbours = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  connections.forEach(connection => {
+    neighbours.get(connection.source.nodeId)?.push(connection.target.nodeId);
+    neighbours.get(connection.target.nodeId)?.push(connection.source.nodeId);
+  });
+
+  // Breadth-first order lists every parent before its children, so the tree walks below are plain
+  // loops and long chains cannot overflow the call stack.
+  const children = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  const depth = new Map<string, number>([[centerId, 0]]);
+  const order: string[] = [];
+  const visit = (rootId: string) => {
+    let head = order.length;
+    order.push(rootId);
+    while (head < order.length) {
+      const id = order[head];
+      head += 1;
+      for (const next of neighbours.get(id)!) {
+        if (!depth.has(next)) {
+          depth.set(next, depth.get(id)! + 1);
+          children.get(id)!.push(next);
+          order.push(next);
+        }
+      }
+    }
+  };
+  visit(centerId);
+  const outerRing = maxOf(depth.values()) + 1;
+  for (const node of nodes) {
+    if (!depth.has(node.id)) {
+      depth.set(node.id, outerRing);
+      children.get(centerId)!.push(node.id);
+      visit(node.id);
+    }
+  }
+
+  const weights = new Map<string, number>();
+  for (let index = order.length - 1; index >= 0; index -= 1) {
+    const id = order[index];
+    weights.set(id, Math.max(1, children.get(id)!.reduce((sum, child) => sum + weights.get(child)!, 0)));
+  }
+
+  const angles = new Map<string, number>();
+  const narrowest: number[] = [];
+  const wedges = new Map<string, [number, number]>([[centerId, [0, Math.PI * 2]]]);
+  for (const id of order) {
+    const [start, end] = wedges.get(id)!;
+    const level = depth.get(id)!;
+    angles.set(id, (start + end) / 2);
+    narrowest[level] = Math.min(narrowest[level] ?? Infinity, end - start);
+    let cursor = start;
+    for (const child of children.get(id)!) {
+      const span = ((end - start) * weights.get(child)!) / weights.get(id)!;
+      wedges.set(child, [cursor, cursor + span]);
+      cursor += span;
+    }
+  }
+
+  // Neighbours on a ring are at least one narrowest wedge apart, so that chord must fit a node.
+  const sizes = new Map(nodes.map(node => [node.id, sizeOf(node)]));
+  const diagonal = maxOf([...sizes.values()].map(size => Math.hypot(size.width, size.height)));
+  const spacing = options.nodeSpacing ?? 40;
+  const radii = [0];
+  for (let level = 1; level < narrowest.length; level += 1) {
+    const chord = 2 * Math.sin(Math.min(narrowest[level], Math.PI) / 2);
+    radii[level] = Math.max(radii[level - 1] + (options.layerSpacing ?? 80) + diagonal, (diagonal + spacing) / chord);
+  }
+
+  const positions = new Map<string, Point>();
+  angles.forEach((angle, id) => {
+    const radius = radii[depth.get(id)!];
+    const size = sizes.get(id)!;
+    positions.set(id, {
+      x: Math.cos(angle) * radius - size.width / 2,
+      y: Math.sin(angle) * radius - size.height / 2,
+    });
+  });
+  return moveToOrigin(positions, options.origin ?? { x: 0, y: 0 });
+};
+
+const LAYOUT_STRATEGIES: Record<FlowGraphLayoutStrategyName, FlowGraphLayoutStrategy> = {
+  layered: (input, options) => computeLayeredLayout(input, { ...options, getNodeSize: input.sizeOf }),
+  force: forceLayout,
+  grid: gridLayout,
+  radial: radialLayout,
+};
+
+/** Computes positions with the chosen strategy for the whole graph or for `options.nodeIds`. */
+export const computeLayout = (
+  source: FlowGraphLayoutSource,
+  options: FlowGraphLayoutOptions = {},
+): FlowGraphLayoutPositions => {
+  const state = readSource(source);
+  const selected = options.nodeIds ? new Set(options.nodeIds) : null;
+  const nodes = selected ? state.nodes.filter(node => selected.has(node.id)) : state.nodes;
+  if (nodes.length === 0) {
+    return {};
+  }
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const input: FlowGraphLayoutInput = {
+    nodes,
+    connections: state.connections.filter(
+      connection => nodeIds.has(connection.source.nodeId) && nodeIds.has(connection.target.nodeId),
+    ),
+    groups: (state.groups ?? [])
+      .map(group => ({ ...group, nodeIds: group.nodeIds.filter(nodeId => nodeIds.has(nodeId)) }))
+      .filter(group => group.nodeIds.length > 0),
+    sizeOf: resolveSizeOf(options),
+  };
+
+  const strategy = typeof options.strategy === 'function' ? options.strategy : LAYOUT_STRATEGIES[options.strategy ?? 'layered'];
+  if (!strategy) {
+    throw new FlowGraphError('LAYOUT_STRATEGY_NOT_FOUND', `Layout strategy "${String(options.strategy)}" does not exist.`);
+  }
+  if (!selected || options.origin) {
+    return strategy(input, options);
+  }
+
+  // Keep the laid-out selection where it was instead of moving it to the origin.
+  const positions = strategy(input, { ...options, origin: { x: 0, y: 0 } });
+  const laidOut = nodes.filter(node => positions[node.id]);
+  const centerId = options.strategy === 'radial' ? options.centerNodeId ?? nodes[0].id : null;
+  const anchor = laidOut.find(node => node.id === centerId);
+  const shift = anchor
+    ? { x: anchor.position.x - positions[anchor.id].x, y: anchor.position.y - positions[anchor.id].y }
+    : {
+        x: minOf(laidOut.map(node => node.position.x)) - minOf(laidOut.map(node => positions[node.id].x)),
+        y: minOf(laidOut.map(node => node.position.y)) - minOf(laidOut.map(node => positions[node.id].y)),
+      };
+  const result: FlowGraphLayoutPositions = {};
+  laidOut.forEach(node => {
+    result[node.id] = { x: positions[node.id].x + shift.x, y: positions[node.id].y + shift.y };
+  });
+  return result;
+};
+
+/** Moves nodes to `positions` in a single batch, so history records one step. Unknown ids are skipped. */
+export const applyLayout = <TNodeData extends Record<string, unknown>>(
+  graph: FlowGraph<TNodeData>,
+  positions: FlowGraphLayoutPositions,
+): void => {
+  graph.batch(target => {
+    Object.entries(positions).forEach(([nodeId, position]) => {
+      if (target.getNode(nodeId)) {
+        target.moveNode(nodeId, position);
+      }
+    });
+  });
+};
+
+/** Computes a layout with `computeLayout` and applies it in one batch. Returns the new positions. */
+export const layout = <TNodeData extends Record<string, unknown>>(
+  graph: FlowGraph<TNodeData>,
+  options: FlowGraphLayoutOptions = {},
+): FlowGraphLayoutPositions => {
+  const positions = computeLayout(graph, options);
+  applyLayout(graph, positions);
+  return positions;
+};
+
+export type FlowGraphAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type FlowGraphDistribution = 'horizontal' | 'vertical';
+
+export type FlowGraphAlignOptions = Pick<FlowGraphLayeredLayoutOptions, 'nodeSize' | 'getNodeSize'>;
+
+/**
+ * Aligns edges or centres to the bounding box of `nodes`: `center` lines up horizontal centres on
+ * one vertical axis, `middle` lines up vertical centres. Only the aligned coordinate changes.
+ */
+export const computeAlignment = (
+  nodes: GraphNode<unknown>[],
+  alignment: FlowGraphAlignment,
+  options: FlowGraphAlignOptions = {},
+): FlowGraphLayoutPositions => {
+  if (nodes.length === 0) {
+    return {};
+  }
+  const sizeOf = resolveSizeOf(options);
+  const horizontal = alignment === 'left' || alignment === 'center' || alignment === 'right';
+  const axis = horizontal ? 'x' : 'y';
+  const length = (node: GraphNode<unknown>) => (horizontal ? sizeOf(node).width : sizeOf(node).height);
+  const min = minOf(nodes.map(node => node.position[axis]));
+  const max = maxOf(nodes.map(node => node.position[axis] + length(node)));
+
+  const positions: FlowGraphLayoutPositions = {};
+  nodes.forEach(node => {
+    const target =
+      alignment === 'left' || alignment === 'top'
+        ? min
+        : alignment === 'right' || alignment === 'bottom'
+          ? max - length(node)
+          : (min + max) / 2 - length(node) / 2;
+    positions[node.id] = { ...node.position, [axis]: target };
+  });
+  return positions;
+};
+
+/**
+ * Spaces `nodes` so the gaps between neighbours are equal along one axis. The first and last node
+ * keep their place; the others keep their order.
+ */
+export const computeDistribution = (
+  nodes: GraphNode<unknown>[],
+  direction: FlowGraphDistribution,
+  options: FlowGraphAlignOptions = {},
+): FlowGraphLayoutPositions => {
+  const sizeOf = resolveSizeOf(options);
+  const axis = direction === 'horizontal' ? 'x' : 'y';
+  const length = (node: GraphNode<unknown>) => (axis === 'x' ? sizeOf(node).width : sizeOf(node).height);
+  const ordered = [...nodes].sort(
+    (a, b) => a.position[axis] + length(a) / 2 - (b.position[axis] + length(b) / 2),
+  );
+  const positions: FlowGraphLayoutPositions = {};
+  if (ordered.length < 3) {
+    ordered.forEach(node => {
+      positions[node.id] = { ...node.position };
+    });
+    return positions;
+  }
+
+  const start = ordered[0].position[axis];
+  const end = ordered[ordered.length - 1].position[axis] + length(ordered[ordered.length - 1]);
+  const occupied = ordered.reduce((sum, node) => sum + length(node), 0);
+  const gap = (end - start - occupied) / (ordered.length - 1);
+  let cursor = start;
+  ordered.forEach((node, index) => {
+    const last = index === ordered.length - 1;
+    positions[node.id] = { ...node.position, [axis]: last ? node.position[axis] : cursor };
+    cursor += length(node) + gap;
+  });
+  return positions;
+};
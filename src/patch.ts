@@ -0,0 +1,127 @@
+import type {
+  FlowGraphState,
+  GraphEntityChange,
+  GraphEntityPatch,
+  GraphPatch,
+} from './types.js';
+
+const createEntityPatch = <TEntity>(): GraphEntityPatch<TEntity> => ({ added: [], removed: [], updated: [] });
+
+const collectEntityChange = <TEntity>(
+  target: GraphEntityPatch<TEntity>,
+  id: string,
+  before: TEntity | undefined,
+  after: TEntity | undefined,
+): void => {
+  if (before && after) {
+    target.updated.push({ id, before, after });
+  } else if (after) {
+    target.added.push(after);
+  } else if (before) {
+    target.removed.push(before);
+  }
+};
+
+/**
+ * Collapses repeated changes to the same entity into a single change that keeps the first `before`
+ * and the last `after`. Entities that were added and removed again are dropped entirely.
+ */
+export const compactChanges = <TNodeData>(changes: GraphEntityChange<TNodeData>[]): GraphEntityChange<TNodeData>[] => {
+  const merged = new Map<string, GraphEntityChange<TNodeData>>();
+  for (const change of changes) {
+    const key = `${change.kind}:${change.id}`;
+    const existing = merged.get(key);
+    if (existing) {
+      merged.set(key, { ...existing, after: change.after } as GraphEntityChange<TNodeData>);
+    } else {
+      merged.set(key, change);
+    }
+  }
+  return Array.from(merged.values()).filter(change => change.before !== undefined || change.after !== undefined);
+};
+
+export const createGraphPatch = <TNodeData>(changes: GraphEntityChange<TNodeData>[]): GraphPatch<TNodeData> => {
+  const patch: GraphPatch<TNodeData> = {
+    nodes: createEntityPatch(),
+    connections: createEntityPatch(),
+    groups: createEntityPatch(),
+    templates: createEntityPatch(),
+  };
+  for (const change of compactChanges(changes)) {
+    switch (change.kind) {
+      case 'viewport':
+        patch.viewport = { before: change.before, after: change.after };
+        continue;
+      case 'metadata':
+        patch.metadata = { before: change.before, after: change.after };
+        continue;
+      case 'node':
+        collectEntityChange(patch.nodes, change.id, change.before, change.after);
+        continue;
+      case 'connection':
+        collectEntityChange(patch.connections, change.id, change.before, change.after);
+        continue;
+      case 'group':
+        collectEntityChange(patch.groups, change.id, change.before, change.after);
+        continue;
+      case 'template':
+        collectEntityChange(patch.templates, change.id, change.before, change.after);
+        continue;
+    }
+  }
+  return patch;
+};
+
+export const isGraphPatchEmpty = <TNodeData>(patch: GraphPatch<TNodeData>): boolean => {
+  const entityPatches: GraphEntityPatch<unknown>[] = [patch.nodes, patch.connections, patch.groups, patch.templates];
+  return (
+    !patch.viewport &&
+    !patch.metadata &&
+    entityPatches.every(entry => entry.added.length === 0 && entry.removed.length === 0 && entry.updated.length === 0)
+  );
+};
+
+const applyEntityPatch = <TEntity extends { id: string }>(
+  entities: TEntity[],
+  patch: GraphEntityPatch<TEntity>,
+): TEntity[] => {
+  if (patch.added.length === 0 && patch.removed.length === 0 && patch.updated.length === 0) {
+    return entities;
+  }
+  const removed = new Set(patch.removed.map(entity => entity.id));
+  const updated = new Map(patch.updated.map(entry => [entry.id, entry.after]));
+  const next: TEntity[] = [];
+  for (const entity of entities) {
+    if (!removed.has(entity.id)) {
+      next.push(updated.get(entity.id) ?? entity);
+    }
+  }
+  next.push(...patch.added);
+  return next;
+};
+
+/**
+ * Returns a new state with the patch applied. Collections and entities the patch does not touch keep
+ * their identity, so consumers can skip work with reference checks.
+ */
+export const applyGraphPatch = <TNodeData>(
+  state: FlowGraphState<TNodeData>,
+  patch: GraphPatch<TNodeData>,
+): FlowGraphState<TNodeData> => {
+  const next: FlowGraphState<TNodeData> = {
+    ...state,
+    nodes: applyEntityPatch(state.nodes, patch.nodes),
+    connections: applyEntityPatch(state.connections, patch.connections),
+    groups: applyEntityPatch(state.groups, patch.groups),
+  };
+  if (state.templates || patch.templates.added.length > 0) {
+    next.templates = applyEntityPatch(state.templates ?? [], patch.templates);
+  }
+  if (patch.viewport) {
+    next.viewport = patch.viewport.after;
+  }
+  if (patch.metadata) {
+    next.metadata = patch.metadata.after;
+  }
+  return next;
+};
@@ -0,0 +1,110 @@
+import { FlowGraphError } from './errors.js';
+import type { FlowGraphState } from './types.js';
+
+export const FLOWGRAPH_DOCUMENT_FORMAT = 'flowgraph';
+/** Version written by this release. Bump it together with a migration from the previous version. */
+export const FLOWGRAPH_DOCUMENT_VERSION = 1;
+
+export interface FlowGraphDocument<TNodeData = Record<string, unknown>> {
+  format: typeof FLOWGRAPH_DOCUMENT_FORMAT;
+  version: number;
+  state: FlowGraphState<TNodeData>;
+}
+
+/** Upgrades a serialised state from `fromVersion` to `fromVersion + 1`. */
+export type FlowGraphMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+export interface FlowGraphMigrationRegistryOptions {
+  /** Version documents are upgraded to and stamped with. Defaults to `FLOWGRAPH_DOCUMENT_VERSION`. */
+  version?: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class FlowGraphMigrationRegistry {
+  readonly version: number;
+  private readonly migrations = new Map<number, FlowGraphMigration>();
+
+  constructor(options: FlowGraphMigrationRegistryOptions = {}) {
+    this.version = options.version ?? FLOWGRAPH_DOCUMENT_VERSION;
+    // Version 0 is a bare FlowGraphState written before documents were versioned.
+    this.register(0, state => state);
+  }
+
+  register(fromVersion: number, migration: FlowGraphMigration): this {
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+      throw new FlowGraphError('INVALID_STATE', `Migration version "${fromVersion}" must be a non-negative integer.`);
+    }
+    this.migrations.set(fromVersion, migration);
+    return this;
+  }
+
+  has(fromVersion: number): boolean {
+    return this.migrations.has(fromVersion);
+  }
+
+  /**
+   * Upgrades a document (or a legacy bare state) step by step to `version`. Throws
+   * `DOCUMENT_VERSION_UNSUPPORTED` for documents written by a newer release.
+   */
+  migrate<TNodeData = Record<string, unknown>>(input: unknown): FlowGraphDocument<TNodeData> {
+    const { version: initialVersion, state: initialState } = this.readEnvelope(input);
+    if (initialVersion > this.version) {
+      throw new FlowGraphError(
+        'DOCUMENT_VERSION_UNSUPPORTED',
+        `Document version ${initialVersion} is newer than the supported version ${this.version}.`,
+      );
+    }
+    let version = initialVersion;
+    let state = initialState;
+    while (version < this.version) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new FlowGraphError(
+          'MIGRATION_NOT_FOUND',
+          `No migration registered from document version ${version} to ${version + 1}.`,
+        );
+      }
+      const migrated = migration(state);
+      if (!isRecord(migrated)) {
+        throw new FlowGraphError('INVALID_STATE', `Migration from version ${version} did not return a state object.`);
+      }
+      state = migrated;
+      version += 1;
+    }
+    return {
+      format: FLOWGRAPH_DOCUMENT_FORMAT,
+      version,
+      state: state as unknown as FlowGraphState<TNodeData>,
+    };
+  }
+
+  private readEnvelope(input: unknown): { version: number; state: Record<string, unknown> } {
+    if (!isRecord(input)) {
+      throw new FlowGraphError('INVALID_STATE', 'Cannot read a graph document that is not an object.');
+    }
+    if (input.format === undefined && Array.isArray(input.nodes)) {
+      return { version: 0, state: input };
+    }
+    if (input.format !== FLOWGRAPH_DOCUMENT_FORMAT) {
+      throw new FlowGraphError('INVALID_STATE', `Unknown document format "${String(input.format)}".`);
+    }
+    if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 0) {
+      throw new FlowGraphError('INVALID_STATE', 'Graph document has an invalid version.');
+    }
+    if (!isRecord(input.state)) {
+      throw new FlowGraphError('INVALID_STATE', 'Graph document does not contain a state object.');
+    }
+    return { version: input.version, state: input.state };
+  }
+}
+
+export const createGraphDocument = <TNodeData>(
+  state: FlowGraphState<TNodeData>,
+  version: number = FLOWGRAPH_DOCUMENT_VERSION,
+): FlowGraphDocument<TNodeData> => ({
+  format: FLOWGRAPH_DOCUMENT_FORMAT,
+  version,
+  state,
+});
@@ -17,7 +17,7 @@ export interface GraphPort {
   key?: string;
   label?: string;
   direction: PortDirection;
-  /** Optional semantic type hint that UIs can use for styling or validation. */
+  /** Semantic type checked against the graph's `FlowGraphTypeRegistry` when connecting (e.g. `number`, `list<string>`). */
   dataType?: string;
   /** Visual token used when rendering ports or deriving connection colours. */
   color?: string;
@@ -174,10 +174,77 @@ export type GraphUpdateReason =
   | 'template:remove'
   | 'template:update'
   | 'graph:import'
-  | 'graph:metadata';
+  | 'graph:metadata'
+  | 'graph:restore'
+  | 'graph:batch';
+
+export type GraphViewport = NonNullable<FlowGraphState['viewport']>;
+
+/**
+ * Entity-level record of a single mutation. `before` is absent for additions and `after` is absent
+ * for removals, so every change can be replayed in either direction.
+ */
+export type GraphEntityChange<TNodeData = Record<string, unknown>> =
+  | { kind: 'node'; id: string; before?: GraphNode<TNodeData>; after?: GraphNode<TNodeData> }
+  | { kind: 'connection'; id: string; before?: GraphConnection; after?: GraphConnection }
+  | { kind: 'group'; id: string; before?: GraphGroup; after?: GraphGroup }
+  | { kind: 'template'; id: string; before?: GraphNodeTemplate<TNodeData>; after?: GraphNodeTemplate<TNodeData> }
+  | { kind: 'viewport'; id: 'viewport'; before?: GraphViewport; after?: GraphViewport }
+  | { kind: 'metadata'; id: 'metadata'; before?: Record<string, unknown>; after?: Record<string, unknown> };
+
+export type GraphEntityKind = GraphEntityChange['kind'];
+
+export interface GraphBatchOperation {
+  reason: GraphUpdateReason;
+  payload?: unknown;
+}
+
+/** Payload of a `'graph:batch'` event: the sub-operations applied by the transaction, in order. */
+export interface GraphBatchPayload {
+  operations: GraphBatchOperation[];
+}
 
 export interface GraphChangeEvent<TNodeData = Record<string, unknown>> {
   reason: GraphUpdateReason;
   state: FlowGraphState<TNodeData>;
   payload?: unknown;
-}
\ No newline at end of file
+  /**
+   * Entity-level changes applied by the mutation, in the order they happened. Always set on events
+   * emitted by `FlowGraph`; optional so hand-built events stay valid.
+   */
+  changes?: GraphEntityChange<TNodeData>[];
+}
+
+export interface GraphEntityUpdate<TEntity> {
+  id: string;
+  before: TEntity;
+  after: TEntity;
+}
+
+export interface GraphEntityPatch<TEntity> {
+  added: TEntity[];
+  removed: TEntity[];
+  updated: GraphEntityUpdate<TEntity>[];
+}
+
+/** Structured diff between the graph before and after a mutation. */
+export interface GraphPatch<TNodeData = Record<string, unknown>> {
+  nodes: GraphEntityPatch<GraphNode<TNodeData>>;
+  connections: GraphEntityPatch<GraphConnection>;
+  groups: GraphEntityPatch<GraphGroup>;
+  templates: GraphEntityPatch<GraphNodeTemplate<TNodeData>>;
+  /** Present only when the viewport changed. */
+  viewport?: { before?: GraphViewport; after?: GraphViewport };
+  /** Present only when graph metadata changed. */
+  metadata?: { before?: Record<string, unknown>; after?: Record<string, unknown> };
+}
+
+export interface GraphPatchEvent<TNodeData = Record<string, unknown>> {
+  reason: GraphUpdateReason;
+  payload?: unknown;
+  patch: GraphPatch<TNodeData>;
+  /** Entity-level changes the patch was built from, in the order they happened. */
+  changes: GraphEntityChange<TNodeData>[];
+}
+
+export type GraphSubscriptionMode = 'state' | 'patch';
\ No newline at end of file
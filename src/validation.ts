@@ -0,0 +1,395 @@
+import type { FlowGraphState } from './types.js';
+
+export type FlowGraphValidationIssueCode =
+  | 'INVALID_TYPE'
+  | 'MISSING_FIELD'
+  | 'INVALID_VALUE'
+  | 'DUPLICATE_ID'
+  | 'UNKNOWN_REFERENCE';
+
+export interface FlowGraphValidationIssue {
+  /** JSON Pointer into the validated document, e.g. `/nodes/3/position/x`. */
+  path: string;
+  code: FlowGraphValidationIssueCode;
+  message: string;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+class IssueCollector {
+  readonly issues: FlowGraphValidationIssue[] = [];
+
+  add(path: string, code: FlowGraphValidationIssueCode, message: string): void {
+    this.issues.push({ path, code, message });
+  }
+
+  requireRecord(value: unknown, path: string, label: string): value is UnknownRecord {
+    if (value === undefined) {
+      this.add(path, 'MISSING_FIELD', `${label} is required.`);
+      return false;
+    }
+    if (!isRecord(value)) {
+      this.add(path, 'INVALID_TYPE', `${label} must be an object.`);
+      return false;
+    }
+    return true;
+  }
+
+  requireId(value: unknown, path: string, seen: Set<string>, label: string): value is string {
+    if (value === undefined) {
+      this.add(path, 'MISSING_FIELD', `${label} is missing an id.`);
+      return false;
+    }
+    if (!isNonEmptyString(value)) {
+      this.add(path, 'INVALID_TYPE', `${label} id must be a non-empty string.`);
+      return false;
+    }
+    if (seen.has(value)) {
+      this.add(path, 'DUPLICATE_ID', `${label} id "${value}" is used more than once.`);
+      return false;
+    }
+    seen.add(value);
+    return true;
+  }
+
+  optionalString(record: UnknownRecord, key: string, path: string): void {
+    if (record[key] !== undefined && typeof record[key] !== 'string') {
+      this.add(`${path}/${key}`, 'INVALID_TYPE', `"${key}" must be a string.`);
+    }
+  }
+
+  optionalBoolean(record: UnknownRecord, key: string, path: string): void {
+    if (record[key] !== undefined && typeof record[key] !== 'boolean') {
+      this.add(`${path}/${key}`, 'INVALID_TYPE', `"${key}" must be a boolean.`);
+    }
+  }
+
+  optionalRecord(record: UnknownRecord, key: string, path: string): void {
+    if (record[key] !== undefined && !isRecord(record[key])) {
+      this.add(`${path}/${key}`, 'INVALID_TYPE', `"${key}" must be an object.`);
+    }
+  }
+
+  point(value: unknown, path: string, label: string): void {
+    if (!this.requireRecord(value, path, label)) {
+      return;
+    }
+    for (const axis of ['x', 'y']) {
+      if (!isFiniteNumber(value[axis])) {
+        this.add(`${path}/${axis}`, 'INVALID_VALUE', `${label} "${axis}" must be a finite number.`);
+      }
+    }
+  }
+
+  size(value: unknown, path: string, label: string): void {
+    if (!this.requireRecord(value, path, label)) {
+      return;
+    }
+    for (const dimension of ['width', 'height']) {
+      const entry = value[dimension];
+      if (!isFiniteNumber(entry) || entry < 0) {
+        this.add(`${path}/${dimension}`, 'INVALID_VALUE', `${label} "${dimension}" must be a non-negative number.`);
+      }
+    }
+  }
+
+  array(value: unknown, path: string, label: string, required: boolean): value is unknown[] {
+    if (value === undefined) {
+      if (required) {
+        this.add(path, 'MISSING_FIELD', `${label} is required.`);
+      }
+      return false;
+    }
+    if (!Array.isArray(value)) {
+      this.add(path, 'INVALID_TYPE', `${label} must be an array.`);
+      return false;
+    }
+    return true;
+  }
+}
+
+type PortDirectionLookup = Map<string, Map<string, unknown>>;
+
+const FORM_FIELD_KINDS = new Set(['text', 'textarea', 'number', 'select', 'checkbox', 'json', 'code', 'custom']);
+
+const validateForm = (issues: IssueCollector, form: unknown, path: string): void => {
+  if (form === undefined || !issues.requireRecord(form, path, 'Form')) {
+    return;
+  }
+  if (!issues.array(form.sections, `${path}/sections`, 'Form sections', true)) {
+    return;
+  }
+  const sectionIds = new Set<string>();
+  (form.sections as unknown[]).forEach((section, sectionIndex) => {
+    const sectionPath = `${path}/sections/${sectionIndex}`;
+    if (!issues.requireRecord(section, sectionPath, 'Form section')) {
+      return;
+    }
+    issues.requireId(section.id, `${sectionPath}/id`, sectionIds, 'Form section');
+    issues.optionalString(section, 'title', sectionPath);
+    issues.optionalString(section, 'description', sectionPath);
+    if (!issues.array(section.fields, `${sectionPath}/fields`, 'Form fields', true)) {
+      return;
+    }
+    const fieldIds = new Set<string>();
+    (section.fields as unknown[]).forEach((field, fieldIndex) => {
+      const fieldPath = `${sectionPath}/fields/${fieldIndex}`;
+      if (!issues.requireRecord(field, fieldPath, 'Form field')) {
+        return;
+      }
+      issues.requireId(field.id, `${fieldPath}/id`, fieldIds, 'Form field');
+      if (typeof field.label !== 'string') {
+        issues.add(`${fieldPath}/label`, field.label === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'Form field label must be a string.');
+      }
+      if (typeof field.kind !== 'string' || !FORM_FIELD_KINDS.has(field.kind)) {
+        issues.add(`${fieldPath}/kind`, 'INVALID_VALUE', `Form field kind must be one of ${[...FORM_FIELD_KINDS].join(', ')}.`);
+      }
+      issues.optionalString(field, 'description', fieldPath);
+      issues.optionalString(field, 'placeholder', fieldPath);
+      issues.optionalBoolean(field, 'required', fieldPath);
+      issues.optionalRecord(field, 'props', fieldPath);
+      if (issues.array(field.options, `${fieldPath}/options`, 'Form field options', false)) {
+        (field.options as unknown[]).forEach((option, optionIndex) => {
+          const optionPath = `${fieldPath}/options/${optionIndex}`;
+          if (!isRecord(option) || typeof option.value !== 'string' || typeof option.label !== 'string') {
+            issues.add(optionPath, 'INVALID_VALUE', 'Form field options must have string "value" and "label".');
+          }
+        });
+      }
+    });
+  });
+};
+
+const validatePorts = (issues: IssueCollector, ports: unknown, path: string): Map<string, unknown> => {
+  const directions = new Map<string, unknown>();
+  if (!issues.array(ports, path, 'Ports', true)) {
+    return directions;
+  }
+  const seen = new Set<string>();
+  ports.forEach((port, index) => {
+    const portPath = `${path}/${index}`;
+    if (!issues.requireRecord(port, portPath, 'Port')) {
+      return;
+    }
+    const hasId = issues.requireId(port.id, `${portPath}/id`, seen, 'Port');
+    if (port.direction !== 'input' && port.direction !== 'output') {
+      issues.add(`${portPath}/direction`, 'INVALID_VALUE', 'Port direction must be "input" or "output".');
+    }
+    if (hasId) {
+      directions.set(port.id as string, port.direction);
+    }
+    if (
+      port.maxConnections !== undefined &&
+      (!isFiniteNumber(port.maxConnections) || !Number.isInteger(port.maxConnections) || port.maxConnections < 0)
+    ) {
+      issues.add(`${portPath}/maxConnections`, 'INVALID_VALUE', 'maxConnections must be a non-negative integer.');
+    }
+    if (issues.array(port.acceptsColors, `${portPath}/acceptsColors`, 'acceptsColors', false)) {
+      (port.acceptsColors as unknown[]).forEach((color, colorIndex) => {
+        if (!isNonEmptyString(color)) {
+          issues.add(`${portPath}/acceptsColors/${colorIndex}`, 'INVALID_VALUE', 'acceptsColors entries must be non-empty strings.');
+        }
+      });
+    }
+    for (const key of ['key', 'label', 'dataType', 'color']) {
+      issues.optionalString(port, key, portPath);
+    }
+    issues.optionalBoolean(port, 'allowLoopback', portPath);
+    issues.optionalRecord(port, 'metadata', portPath);
+  });
+  return directions;
+};
+
+const validateNodes = (issues: IssueCollector, nodes: unknown[], groupIds: Set<string>): PortDirectionLookup => {
+  const lookup: PortDirectionLookup = new Map();
+  const seen = new Set<string>();
+  nodes.forEach((node, index) => {
+    const path = `/nodes/${index}`;
+    if (!issues.requireRecord(node, path, 'Node')) {
+      return;
+    }
+    const hasId = issues.requireId(node.id, `${path}/id`, seen, 'Node');
+    if (typeof node.label !== 'string') {
+      issues.add(`${path}/label`, node.label === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'Node label must be a string.');
+    }
+    issues.point(node.position, `${path}/position`, 'Node position');
+    if (node.size !== undefined) {
+      issues.size(node.size, `${path}/size`, 'Node size');
+    }
+    const ports = validatePorts(issues, node.ports, `${path}/ports`);
+    if (hasId) {
+      lookup.set(node.id as string, ports);
+    }
+    if (node.groupId !== undefined && node.groupId !== null) {
+      if (typeof node.groupId !== 'string') {
+        issues.add(`${path}/groupId`, 'INVALID_TYPE', 'groupId must be a string or null.');
+      } else if (!groupIds.has(node.groupId)) {
+        issues.add(`${path}/groupId`, 'UNKNOWN_REFERENCE', `Group "${node.groupId}" does not exist.`);
+      }
+    }
+    for (const key of ['description', 'templateId']) {
+      issues.optionalString(node, key, path);
+    }
+    issues.optionalRecord(node, 'data', path);
+    issues.optionalRecord(node, 'metadata', path);
+    validateForm(issues, node.form, `${path}/form`);
+    issues.optionalBoolean(node, 'readonly', path);
+  });
+  return lookup;
+};
+
+const validateEndpoint = (
+  issues: IssueCollector,
+  endpoint: unknown,
+  path: string,
+  expectedDirection: 'input' | 'output',
+  lookup: PortDirectionLookup,
+): void => {
+  if (!issues.requireRecord(endpoint, path, 'Connection endpoint')) {
+    return;
+  }
+  if (!isNonEmptyString(endpoint.nodeId)) {
+    issues.add(`${path}/nodeId`, 'INVALID_TYPE', 'nodeId must be a non-empty string.');
+    return;
+  }
+  if (!isNonEmptyString(endpoint.portId)) {
+    issues.add(`${path}/portId`, 'INVALID_TYPE', 'portId must be a non-empty string.');
+    return;
+  }
+  const ports = lookup.get(endpoint.nodeId);
+  if (!ports) {
+    issues.add(`${path}/nodeId`, 'UNKNOWN_REFERENCE', `Node "${endpoint.nodeId}" does not exist.`);
+    return;
+  }
+  if (!ports.has(endpoint.portId)) {
+    issues.add(`${path}/portId`, 'UNKNOWN_REFERENCE', `Port "${endpoint.portId}" does not exist on node "${endpoint.nodeId}".`);
+    return;
+  }
+  if (ports.get(endpoint.portId) !== expectedDirection) {
+    issues.add(`${path}/portId`, 'INVALID_VALUE', `Port "${endpoint.portId}" must be an ${expectedDirection} port.`);
+  }
+};
+
+const validateConnections = (issues: IssueCollector, connections: unknown[], lookup: PortDirectionLookup): void => {
+  const seen = new Set<string>();
+  connections.forEach((connection, index) => {
+    const path = `/connections/${index}`;
+    if (!issues.requireRecord(connection, path, 'Connection')) {
+      return;
+    }
+    issues.requireId(connection.id, `${path}/id`, seen, 'Connection');
+    validateEndpoint(issues, connection.source, `${path}/source`, 'output', lookup);
+    validateEndpoint(issues, connection.target, `${path}/target`, 'input', lookup);
+    if (issues.array(connection.path, `${path}/path`, 'Connection path', false)) {
+      (connection.path as unknown[]).forEach((point, pointIndex) =>
+        issues.point(point, `${path}/path/${pointIndex}`, 'Waypoint'),
+      );
+    }
+    issues.optionalString(connection, 'color', path);
+    issues.optionalRecord(connection, 'metadata', path);
+  });
+};
+
+const validateGroups = (issues: IssueCollector, groups: unknown[], nodeIds: Set<string>): void => {
+  const seen = new Set<string>();
+  groups.forEach((group, index) => {
+    const path = `/groups/${index}`;
+    if (!issues.requireRecord(group, path, 'Group')) {
+      return;
+    }
+    issues.requireId(group.id, `${path}/id`, seen, 'Group');
+    if (typeof group.label !== 'string') {
+      issues.add(`${path}/label`, group.label === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'Group label must be a string.');
+    }
+    if (issues.array(group.nodeIds, `${path}/nodeIds`, 'Group nodeIds', true)) {
+      const members = new Set<string>();
+      (group.nodeIds as unknown[]).forEach((nodeId, nodeIndex) => {
+        const nodePath = `${path}/nodeIds/${nodeIndex}`;
+        if (typeof nodeId !== 'string') {
+          issues.add(nodePath, 'INVALID_TYPE', 'Group members must be node ids.');
+        } else if (members.has(nodeId)) {
+          issues.add(nodePath, 'DUPLICATE_ID', `Node "${nodeId}" is listed more than once.`);
+        } else if (!nodeIds.has(nodeId)) {
+          issues.add(nodePath, 'UNKNOWN_REFERENCE', `Node "${nodeId}" does not exist.`);
+        } else {
+          members.add(nodeId);
+        }
+      });
+    }
+    if (group.bounds !== undefined && issues.requireRecord(group.bounds, `${path}/bounds`, 'Group bounds')) {
+      issues.point(group.bounds.position, `${path}/bounds/position`, 'Group bounds position');
+      issues.size(group.bounds.size, `${path}/bounds/size`, 'Group bounds size');
+    }
+    issues.optionalString(group, 'description', path);
+    issues.optionalRecord(group, 'metadata', path);
+  });
+};
+
+const validateTemplates = (issues: IssueCollector, templates: unknown[]): void => {
+  const seen = new Set<string>();
+  templates.forEach((template, index) => {
+    const path = `/templates/${index}`;
+    if (!issues.requireRecord(template, path, 'Template')) {
+      return;
+    }
+    issues.requireId(template.id, `${path}/id`, seen, 'Template');
+    if (typeof template.label !== 'string') {
+      issues.add(`${path}/label`, template.label === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'Template label must be a string.');
+    }
+    validatePorts(issues, template.ports, `${path}/ports`);
+    validateForm(issues, template.form, `${path}/form`);
+    if (isRecord(template.defaults)) {
+      if (template.defaults.ports !== undefined) {
+        validatePorts(issues, template.defaults.ports, `${path}/defaults/ports`);
+      }
+      validateForm(issues, template.defaults.form, `${path}/defaults/form`);
+    }
+  });
+};
+
+/**
+ * Structurally validates an untrusted graph state without touching any `FlowGraph`. Returns an empty
+ * array when the state can be imported safely.
+ */
+export const validateState = <TNodeData = Record<string, unknown>>(
+  state: FlowGraphState<TNodeData> | unknown,
+): FlowGraphValidationIssue[] => {
+  const issues = new IssueCollector();
+  if (!issues.requireRecord(state, '', 'Graph state')) {
+    return issues.issues;
+  }
+
+  const groups = issues.array(state.groups, '/groups', 'groups', false) ? (state.groups as unknown[]) : [];
+  const groupIds = new Set(
+    groups.filter(isRecord).map(group => group.id).filter((id): id is string => typeof id === 'string'),
+  );
+  const nodes = issues.array(state.nodes, '/nodes', 'nodes', true) ? (state.nodes as unknown[]) : [];
+  const lookup = validateNodes(issues, nodes, groupIds);
+  validateGroups(issues, groups, new Set(lookup.keys()));
+  if (issues.array(state.connections, '/connections', 'connections', false)) {
+    validateConnections(issues, state.connections as unknown[], lookup);
+  }
+  if (issues.array(state.templates, '/templates', 'templates', false)) {
+    validateTemplates(issues, state.templates as unknown[]);
+  }
+
+  if (state.viewport !== undefined && issues.requireRecord(state.viewport, '/viewport', 'Viewport')) {
+    issues.point(state.viewport.position, '/viewport/position', 'Viewport position');
+    const zoom = state.viewport.zoom;
+    if (!isFiniteNumber(zoom) || zoom <= 0) {
+      issues.add('/viewport/zoom', 'INVALID_VALUE', 'Viewport zoom must be a finite number greater than 0.');
+    }
+  }
+  if (state.metadata !== undefined && !isRecord(state.metadata)) {
+    issues.add('/metadata', 'INVALID_TYPE', 'Graph metadata must be an object.');
+  }
+
+  return issues.issues;
+};
@@ -0,0 +1,29 @@
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@flowtomic/flowgraph': resolve(__dirname, 'src/index.ts'),
+    },
+  },
+  plugins: [
+    {
+      // Sources import siblings as `./name.js`; resolve those to the TypeScript file so tests never pick
+      // up compiled output sitting next to it.
+      name: 'flowgraph:prefer-ts-sources',
+      enforce: 'pre',
+      resolveId(source, importer) {
+        if (!importer || !source.startsWith('.') || !source.endsWith('.js')) {
+          return null;
+        }
+        const candidate = resolve(dirname(importer), source.replace(/\.js$/, '.ts'));
+        return existsSync(candidate) ? candidate : null;
+      },
+    },
+  ],
+  test: {
+    include: ['src/**/*.spec.ts', 'packages/executor/src/**/*.spec.ts'],
+  },
+});